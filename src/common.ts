@@ -35,6 +35,12 @@ export interface I18nTranslationOptions {
    * The value of the field that failed the constraint
    */
   value: unknown
+
+  /**
+   * The label of the field that failed the constraint, translated if it
+   * is a translation key, or else the field's name
+   */
+  label: string
 }
 
 /**
@@ -66,6 +72,34 @@ export interface I18nHandler {
     errorKey: string,
     options: Options,
   ): string
+
+  /**
+   * Registers a function to be called whenever the locale changes
+   * @param callback The function to be called
+   * @param context The value of `this` within the function
+   * @returns A function that unregisters the callback
+   */
+  onLocaleChanged?(callback: () => void, context?: unknown): () => void
+}
+
+/**
+ * Configures how error messages are translated
+ */
+export interface I18nOptions {
+  /**
+   * An interface of the internationalisation engine used to
+   * translate error messages if present.
+   * This mimics `ember-intl`'s interface, so the service can be
+   * directly provided as this property.
+   */
+  handler?: I18nHandler
+
+  /**
+   * The prefix of the keys under which translations are looked up,
+   * such as `validation` in `validation.presence`. Defaults to
+   * `validation`.
+   */
+  prefix?: string
 }
 
 /**
@@ -82,19 +116,40 @@ export interface ConstraintOptions {
    */
   message?: string
 
+  /**
+   * How serious a failure of the constraint is. Defaults to `error`.
+   * @see Severity
+   */
+  severity?: Severity
+
+  /**
+   * The name of the field shown in error messages, or a translation key
+   * resolving to it. Defaults to the `label` of the field's constraints.
+   */
+  label?: string
+
+  /**
+   * Whether to skip the constraint when the value is `null`
+   */
+  allowNull?: boolean
+
+  /**
+   * Whether to skip the constraint when the value is `undefined`
+   */
+  allowUndefined?: boolean
+
+  /**
+   * Whether to skip the constraint when the value is blank: `null`,
+   * `undefined`, an empty or whitespace-only string, or an empty array
+   * @see isBlank from `@ember/utils`
+   */
+  allowBlank?: boolean
+
   /**
    * Stores options to interact with an underlying internationalisation
    * engine.
    */
-  i18n?: {
-    /**
-     * An interface of the internationalisation engine used to
-     * translate error messages if present.
-     * This mimics `ember-intl`'s interface, so the service can be
-     * directly provided as this property.
-     */
-    handler: I18nHandler
-
+  i18n?: I18nOptions & {
     /**
      * An arbitrary key to be provided to the internationalisation
      * engine, if present, to fetch a specific translation.
@@ -105,9 +160,111 @@ export interface ConstraintOptions {
 }
 
 /**
- * Defines the type that validator functions must return.
+ * Describes a failed constraint
+ */
+export interface ValidationError {
+  /**
+   * The name of the failed constraint, or of the specific failure kind
+   * (e.g.: `length.minimum`)
+   */
+  constraint: string
+
+  /**
+   * The name of the field that failed the constraint
+   */
+  field: Field
+
+  /**
+   * The value of the field that failed the constraint
+   */
+  value: unknown
+
+  /**
+   * The key under which a translation was looked up for this error
+   */
+  key: string
+
+  /**
+   * The options provided to the internationalisation engine for
+   * interpolation
+   */
+  options: I18nTranslationOptions & Record<string, unknown>
+
+  /**
+   * The final error message
+   */
+  message: string
+
+  /**
+   * Whether the message was provided as is, through the constraint's
+   * `message` option or by a validator, rather than translated
+   */
+  hasCustomMessage?: boolean
+
+  /**
+   * The labels interpolated in the message as they were given, possibly
+   * translation keys, so the message can be translated again
+   */
+  labelKeys?: { label?: string; otherLabel?: string }
+
+  /**
+   * How serious the failure is, if the constraint was given a severity.
+   * Failures without one are errors.
+   */
+  severity?: Severity
+}
+
+/**
+ * Defines how serious a constraint failure is:
+ *   1. `error`: the model is invalid;
+ *   2. `warning`: the value is allowed but likely a mistake;
+ *   3. `info`: the value is allowed, with information about it.
+ * Only errors make a model invalid or halt validation.
+ */
+export type Severity = 'error' | 'warning' | 'info'
+
+/**
+ * Defines the type that validator functions must return. Validators may
+ * describe a failure either through a `ValidationError` or only through its
+ * message.
  */
-export type ValidationResult = string | Promise<string | void> | void
+export type ValidationResult =
+  | string
+  | ValidationError
+  | Promise<string | ValidationError | void>
+  | void
+
+/**
+ * Describes the validation run in which a constraint is applied
+ */
+export interface ValidationContext {
+  /**
+   * Aborts once the run is cancelled. When running sequentially, it is the
+   * signal the run was started with, if any. Otherwise, it also aborts once
+   * the constraint's result no longer matters, such as after an earlier
+   * field halted the run. Long-running validators should stop their work
+   * once it aborts.
+   */
+  signal?: AbortSignal
+
+  /**
+   * The translation settings the run was started with, if any. Constraint
+   * options take precedence over them.
+   */
+  i18n?: I18nOptions
+
+  /**
+   * The labels of the fields of the model being validated, if any, as
+   * given in their constraints
+   */
+  labels?: Partial<Record<Field, string>>
+
+  /**
+   * The contexts the run was started with, such as `'create'`. Constraints
+   * tagged with other contexts or groups are skipped.
+   */
+  contexts?: readonly string[]
+}
 
 /**
  * Defines the signature common to all validation functions.
@@ -118,5 +275,6 @@ export type ValidatorFunction<Options extends ConstraintOptions> = {
     field: Field,
     value: unknown,
     options: Options,
+    context: ValidationContext,
   ): ValidationResult
 }
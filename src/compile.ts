@@ -0,0 +1,207 @@
+import type { Model } from './common.ts'
+import {
+  FIELD_SETTINGS,
+  entriesOf,
+  type CoreOptions,
+  type FieldConstraints,
+  type ModelConstraints,
+  type OrderedFieldConstraints,
+} from './core.ts'
+import {
+  InvalidConstraintsError,
+  RequiredOptionMissingError,
+  UnknownConstraintError,
+  type ConstraintProblem,
+} from './error.ts'
+import {
+  ConstraintRegistry,
+  defaultRegistry,
+  type ConstraintDefinition,
+} from './registry.ts'
+
+/**
+ * Options accepted by `compileConstraints`
+ */
+export interface CompileOptions {
+  /**
+   * The registry constraint names are looked up in. Defaults to the
+   * global `defaultRegistry`.
+   */
+  registry?: ConstraintRegistry
+}
+
+/**
+ * A set of constraints checked ahead of validation. Passing it to
+ * `validate` skips checking constraint names and options again.
+ */
+export class CompiledConstraints<M extends Model = Model> {
+  /**
+   * The constraints applied to the model
+   */
+  readonly constraints: ModelConstraints<M>
+
+  /**
+   * Contains the constraints used by the set, without options checkers.
+   * It takes the place of the registry `validate` is called with.
+   */
+  readonly registry: ConstraintRegistry
+
+  constructor(constraints: ModelConstraints<M>, registry: ConstraintRegistry) {
+    this.constraints = constraints
+    this.registry = registry
+  }
+}
+
+/**
+ * Checks the constraints applied to a field, including the ones applied to
+ * the fields nested within it
+ * @param constraints The constraints applied to the field
+ * @param path The path of the field
+ * @param registry The registry constraint names are looked up in
+ * @param problems Collects the problems found
+ * @param used Collects the definitions of the constraints used
+ */
+function checkFieldConstraints(
+  constraints: FieldConstraints | OrderedFieldConstraints,
+  path: string,
+  registry: ConstraintRegistry,
+  problems: ConstraintProblem[],
+  used: Map<string, ConstraintDefinition>,
+) {
+  const applied = new Set<string>()
+
+  for (const [constraint, options] of entriesOf(constraints)) {
+    if (
+      options === undefined ||
+      (FIELD_SETTINGS as readonly string[]).includes(constraint)
+    )
+      continue
+
+    try {
+      if (constraint === 'nested') {
+        const { constraints: nestedConstraints } = options as {
+          constraints?: ModelConstraints
+        }
+        if (typeof nestedConstraints !== 'object' || !nestedConstraints) {
+          const errorMessage =
+            'The constraints of nested fields must be provided'
+          throw new RequiredOptionMissingError(errorMessage)
+        }
+
+        checkModelConstraints(
+          nestedConstraints,
+          `${path}.`,
+          registry,
+          problems,
+          used,
+        )
+        continue
+      }
+
+      if (constraint === 'each') {
+        if (typeof options !== 'object' || !options) {
+          const errorMessage = 'The constraints of items must be provided'
+          throw new RequiredOptionMissingError(errorMessage)
+        }
+
+        checkFieldConstraints(
+          options as FieldConstraints | OrderedFieldConstraints,
+          `${path}[]`,
+          registry,
+          problems,
+          used,
+        )
+        continue
+      }
+
+      const definition = registry.lookup(constraint)
+      if (!definition) {
+        throw new UnknownConstraintError(`Unknown constraint ${constraint}`)
+      }
+
+      const coreOptions = options === true ? {} : (options as CoreOptions)
+      for (const dependency of coreOptions.dependsOn ?? []) {
+        if (!applied.has(dependency)) {
+          const errorMessage = `Depends on ${dependency}, which is not applied before it`
+          throw new UnknownConstraintError(errorMessage)
+        }
+      }
+
+      definition.checkOptions?.(coreOptions)
+      used.set(constraint, { validator: definition.validator })
+    } catch (error) {
+      problems.push({ path, constraint, error: error as Error })
+    } finally {
+      applied.add(constraint)
+    }
+  }
+}
+
+/**
+ * Checks the constraints applied to each field of a model
+ * @param constraints The constraints applied to the model
+ * @param prefix Prepended to each field name to build its path
+ * @param registry The registry constraint names are looked up in
+ * @param problems Collects the problems found
+ * @param used Collects the definitions of the constraints used
+ */
+function checkModelConstraints(
+  constraints: ModelConstraints,
+  prefix: string,
+  registry: ConstraintRegistry,
+  problems: ConstraintProblem[],
+  used: Map<string, ConstraintDefinition>,
+) {
+  for (const [field, fieldConstraints] of Object.entries<
+    FieldConstraints | OrderedFieldConstraints | undefined
+  >(constraints)) {
+    if (fieldConstraints === undefined) continue
+
+    checkFieldConstraints(
+      fieldConstraints,
+      `${prefix}${field}`,
+      registry,
+      problems,
+      used,
+    )
+  }
+}
+
+/**
+ * Checks a set of constraints ahead of validation: every constraint must
+ * be registered and its options must be usable by its validator, regardless
+ * of any `if` condition
+ * @param constraints The constraints to be checked
+ * @param registry The registry constraint names are looked up in
+ * @returns The compiled constraints, to be passed to `validate`
+ * @throws InvalidConstraintsError listing every problem found
+ * @example
+ * const schema = compileConstraints({
+ *   email: { presence: true, format: { pattern: /@/ } },
+ * })
+ * await validate(user, schema)
+ */
+export function compileConstraints<M extends Model>(
+  constraints: ModelConstraints<M>,
+  { registry = defaultRegistry }: CompileOptions = {},
+) {
+  const problems: ConstraintProblem[] = []
+  const used = new Map<string, ConstraintDefinition>()
+
+  checkModelConstraints(
+    constraints as ModelConstraints,
+    '',
+    registry,
+    problems,
+    used,
+  )
+
+  if (problems.length > 0) {
+    throw new InvalidConstraintsError(problems)
+  }
+
+  return new CompiledConstraints(
+    constraints,
+    new ConstraintRegistry(Object.fromEntries(used)),
+  )
+}
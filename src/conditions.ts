@@ -0,0 +1,90 @@
+import type { Field, Model } from './common.ts'
+import type {
+  FieldConstraints,
+  ModelConstraints,
+  OrderedFieldConstraints,
+} from './core.ts'
+
+/**
+ * Describes a condition on another field of the model:
+ *   1. `{ field, is }` holds when the field's value is `is`;
+ *   2. `{ field, truthy }` holds when the field's value is truthy, or falsy
+ *      if `truthy` is `false`.
+ */
+export type FieldCondition<M extends Model = Model> =
+  | { field: keyof M & Field; is: unknown }
+  | { field: keyof M & Field; truthy: boolean }
+
+/**
+ * One or more conditions, all of which must hold
+ */
+export type FieldConditions<M extends Model = Model> =
+  | FieldCondition<M>
+  | readonly FieldCondition<M>[]
+
+/**
+ * Checks whether conditions hold for a model
+ * @param conditions The conditions, if any
+ * @param model The model holding the fields the conditions refer to
+ * @returns Whether every condition holds. Holds if there are no conditions
+ */
+export function conditionsHold(
+  conditions: FieldConditions | undefined,
+  model: Model,
+) {
+  return listOf(conditions).every((condition) => {
+    const value = model[condition.field]
+    return 'is' in condition
+      ? value === condition.is
+      : Boolean(value) === condition.truthy
+  })
+}
+
+/**
+ * Lists conditions given either alone or as an array
+ * @param conditions The conditions, if any
+ */
+function listOf<M extends Model>(conditions: FieldConditions<M> | undefined) {
+  if (conditions === undefined) return []
+  return (
+    Array.isArray(conditions) ? conditions : [conditions]
+  ) as readonly FieldCondition<M>[]
+}
+
+/**
+ * Applies a condition to a block of field constraints, which are then only
+ * validated, including their nested fields, when it holds
+ * @param condition The condition, on fields of the model
+ * @param constraints The constraints of the fields
+ * @returns The constraints, each field also requiring the condition
+ * @example
+ * const constraints = {
+ *   country: { presence: true },
+ *   ...when({ field: 'country', is: 'BR' }, {
+ *     cpf: { presence: true, format: { pattern: /^\d{11}$/ } },
+ *   }),
+ * }
+ */
+export function when<M extends Model = Model>(
+  condition: FieldCondition<M>,
+  constraints: ModelConstraints<M>,
+): ModelConstraints<M> {
+  const block: Record<Field, unknown> = {}
+
+  for (const [field, fieldConstraints] of Object.entries<
+    FieldConstraints | OrderedFieldConstraints | undefined
+  >(constraints)) {
+    if (fieldConstraints === undefined) continue
+
+    if (Array.isArray(fieldConstraints)) {
+      const ordered = fieldConstraints as OrderedFieldConstraints
+      const existing = ordered.findLast((entry) => entry.when)?.when
+      block[field] = [...ordered, { when: [...listOf(existing), condition] }]
+    } else {
+      const { when: existing, ...others } = fieldConstraints as FieldConstraints
+      block[field] = { ...others, when: [...listOf(existing), condition] }
+    }
+  }
+
+  return block as ModelConstraints<M>
+}
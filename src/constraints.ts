@@ -0,0 +1,290 @@
+import type { ConstraintOptions } from './common.ts'
+import type { ConstraintDefinition } from './registry.ts'
+import { RequiredOptionMissingError } from './error.ts'
+import { TYPE_VALUES, type Type } from './type-utils/object-natures.ts'
+import {
+  presenceErrorFor,
+  absenceErrorFor,
+  typeErrorFor,
+  instanceErrorFor,
+  lengthErrorFor,
+  numericalityErrorFor,
+  dateErrorFor,
+  emailErrorFor,
+  formatErrorFor,
+  confirmationErrorFor,
+  comparisonErrorFor,
+  inclusionErrorFor,
+  exclusionErrorFor,
+  uuidErrorFor,
+  validateCustom,
+  COMPARISON_OPERATORS,
+  type PresenceConstraintOptions,
+  type AbsenceConstraintOptions,
+  type TypeConstraintOptions,
+  type InstanceConstraintOptions,
+  type LengthConstraintOptions,
+  type NumericalityConstraintOptions,
+  type DateConstraintOptions,
+  type EmailConstraintOptions,
+  type FormatConstraintOptions,
+  type ConfirmationConstraintOptions,
+  type CompareConstraintOptions,
+  type ComparisonOperator,
+  type InclusionConstraintOptions,
+  type ExclusionConstraintOptions,
+  type UUIDConstraintOptions,
+  type CustomConstraintOptions,
+} from './validators.ts'
+
+/**
+ * Maps each constraint name to the options its validator accepts.
+ * Constraint sets are type-checked against this map, so constraints
+ * registered at runtime should also be declared here through module
+ * augmentation.
+ * @example
+ * declare module 'ember-perspective/constraints' {
+ *   interface ConstraintOptionsMap {
+ *     cpf: CPFConstraintOptions
+ *   }
+ * }
+ */
+export interface ConstraintOptionsMap {
+  presence: PresenceConstraintOptions
+  absence: AbsenceConstraintOptions
+  type: TypeConstraintOptions
+  instance: InstanceConstraintOptions<unknown>
+  length: LengthConstraintOptions
+  numericality: NumericalityConstraintOptions
+  date: DateConstraintOptions
+  email: EmailConstraintOptions
+  format: FormatConstraintOptions
+  confirmation: ConfirmationConstraintOptions
+  compare: CompareConstraintOptions
+  inclusion: InclusionConstraintOptions
+  exclusion: ExclusionConstraintOptions
+  uuid: UUIDConstraintOptions
+  custom: CustomConstraintOptions
+}
+
+/**
+ * Lists the options of `numericality` holding numeric bounds
+ */
+const NUMERIC_BOUNDS = [
+  'greaterThan',
+  'greaterThanOrEqualTo',
+  'lessThan',
+  'lessThanOrEqualTo',
+  'equalTo',
+  'otherThan',
+] as const
+
+/**
+ * Lists the options of `date` holding date bounds
+ */
+const DATE_BOUNDS = ['before', 'after', 'onOrBefore', 'onOrAfter'] as const
+
+/**
+ * Ensures a valid `typeof` result was provided in `options.type`
+ * @param options
+ */
+function checkTypeOptions(options: ConstraintOptions) {
+  if (!('type' in options) || !TYPE_VALUES.includes(options.type as Type)) {
+    const errorMessage = 'A valid type string must be supplied'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Ensures a constructor, or a non-empty array of constructors, was provided
+ * in `options.Constructor`
+ * @param options
+ */
+function checkInstanceOptions(options: ConstraintOptions) {
+  const constructors =
+    'Constructor' in options
+      ? Array.isArray(options.Constructor)
+        ? (options.Constructor as unknown[])
+        : [options.Constructor]
+      : []
+
+  if (
+    constructors.length === 0 ||
+    !constructors.every((Constructor) => typeof Constructor === 'function')
+  ) {
+    const errorMessage = 'A valid constructor or class must be supplied'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Ensures every numeric bound provided is a number
+ * @param options
+ */
+function checkNumericalityOptions(options: ConstraintOptions) {
+  const bounds = options as Record<string, unknown>
+
+  for (const bound of NUMERIC_BOUNDS) {
+    if (bounds[bound] !== undefined && typeof bounds[bound] !== 'number') {
+      const errorMessage = `Numeric bound ${bound} must be a number`
+      throw new RequiredOptionMissingError(errorMessage)
+    }
+  }
+}
+
+/**
+ * Ensures every date bound provided is either a date-like value, a
+ * function or a reference to a sibling field, and that the clock, if
+ * provided, is a function
+ * @param options
+ */
+function checkDateOptions(options: ConstraintOptions) {
+  const { now, ...bounds } = options as Record<string, unknown>
+
+  for (const bound of DATE_BOUNDS) {
+    const value = bounds[bound]
+    if (
+      value === undefined ||
+      value instanceof Date ||
+      ['string', 'number', 'function'].includes(typeof value) ||
+      (typeof value === 'object' && value !== null && 'on' in value)
+    )
+      continue
+
+    const errorMessage = `Date bound ${bound} must be a date, a function or { on: field }`
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+
+  if (now !== undefined && typeof now !== 'function') {
+    const errorMessage = 'The clock must be a function returning a date'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Ensures a regular expression was provided in `options.pattern`
+ * @param options
+ */
+function checkFormatOptions(options: ConstraintOptions) {
+  if (!('pattern' in options) || !(options.pattern instanceof RegExp)) {
+    const errorMessage = 'Pattern for validation must be supplied'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Ensures a field name was provided in `options.on`
+ * @param options
+ */
+function checkConfirmationOptions(options: ConstraintOptions) {
+  if (
+    !('on' in options) ||
+    !['string', 'number', 'symbol'].includes(typeof options.on)
+  ) {
+    const errorMessage = 'The name of the confirmation field must be provided'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Ensures a field name and a known operator were provided in `options.on`
+ * and `options.operator`, and that the comparator, if provided, is a
+ * function
+ * @param options
+ */
+function checkCompareOptions(options: ConstraintOptions) {
+  if (
+    !('on' in options) ||
+    !['string', 'number', 'symbol'].includes(typeof options.on)
+  ) {
+    const errorMessage = 'The name of the compared field must be provided'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+
+  if (
+    !('operator' in options) ||
+    !COMPARISON_OPERATORS.includes(options.operator as ComparisonOperator)
+  ) {
+    const errorMessage = `The operator must be one of ${COMPARISON_OPERATORS.join(', ')}`
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+
+  if ('comparator' in options && typeof options.comparator !== 'function') {
+    const errorMessage = 'The comparator must be a function'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Ensures an array of accepted values was provided in `options.in`
+ * @param options
+ */
+function checkInclusionOptions(options: ConstraintOptions) {
+  if (!('in' in options) || !Array.isArray(options.in)) {
+    const errorMessage = 'An array of the accepted values must be provided'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Ensures an array of rejected values was provided in `options.from`
+ * @param options
+ */
+function checkExclusionOptions(options: ConstraintOptions) {
+  if (!('from' in options) || !Array.isArray(options.from)) {
+    const errorMessage = 'An array of the rejected values must be provided'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Ensures a validator function was provided in `options.with`
+ * @param options
+ */
+function checkCustomOptions(options: ConstraintOptions) {
+  if (!('with' in options) || typeof options.with !== 'function') {
+    const errorMessage = 'A custom validator function must be provided'
+    throw new RequiredOptionMissingError(errorMessage)
+  }
+}
+
+/**
+ * Contains the definitions of all constraints shipped with the addon,
+ * keyed by constraint name.
+ */
+export const builtinConstraints = {
+  presence: { validator: presenceErrorFor },
+  absence: { validator: absenceErrorFor },
+  type: { validator: typeErrorFor, checkOptions: checkTypeOptions },
+  instance: { validator: instanceErrorFor, checkOptions: checkInstanceOptions },
+  length: { validator: lengthErrorFor },
+  numericality: {
+    validator: numericalityErrorFor,
+    checkOptions: checkNumericalityOptions,
+  },
+  date: { validator: dateErrorFor, checkOptions: checkDateOptions },
+  email: { validator: emailErrorFor },
+  format: { validator: formatErrorFor, checkOptions: checkFormatOptions },
+  confirmation: {
+    validator: confirmationErrorFor,
+    checkOptions: checkConfirmationOptions,
+  },
+  compare: {
+    validator: comparisonErrorFor,
+    checkOptions: checkCompareOptions,
+  },
+  inclusion: {
+    validator: inclusionErrorFor,
+    checkOptions: checkInclusionOptions,
+  },
+  exclusion: {
+    validator: exclusionErrorFor,
+    checkOptions: checkExclusionOptions,
+  },
+  uuid: { validator: uuidErrorFor },
+  custom: { validator: validateCustom, checkOptions: checkCustomOptions },
+} satisfies {
+  [Constraint in keyof ConstraintOptionsMap]?: ConstraintDefinition<
+    ConstraintOptionsMap[Constraint]
+  >
+}
@@ -1,166 +1,807 @@
-import type { ConstraintOptions, Field, Model } from './common.ts'
+import { isBlank } from '@ember/utils'
+import type {
+  ConstraintOptions,
+  Field,
+  I18nOptions,
+  Model,
+  Severity,
+  ValidationContext,
+  ValidationError,
+} from './common.ts'
 import {
   InvalidValueForConstraintError,
-  RequiredOptionMissingError,
   UnknownConstraintError,
+  validationErrorFor,
 } from './error.ts'
-import { TYPE_VALUES, type Type } from './type-utils/object-natures.ts'
+import { defaultRegistry, type ConstraintRegistry } from './registry.ts'
+import { conditionsHold, type FieldConditions } from './conditions.ts'
+import { CompiledConstraints } from './compile.ts'
+import type { ConstraintOptionsMap } from './constraints.ts'
+import { Executor, TIMED_OUT, type ExecutionMode } from './utils/execution.ts'
 import {
-  validatePresence,
-  validateAbsence,
-  validateType,
-  validateInstance,
-  validateLength,
-  validateEmail,
-  validateFormat,
-  validateConfirmation,
-  validateInclusion,
-  validateExclusion,
-  validateUUID,
-  validateCustom,
-  type FormatConstraintOptions,
-  type ConfirmationConstraintOptions,
-  type InclusionConstraintOptions,
-  type CustomConstraintOptions,
-  type TypeConstraintOptions,
-  type InstanceConstraintOptions,
-  type ExclusionConstraintOptions,
-} from './validators.ts'
+  Outcome,
+  all,
+  run,
+  runSync,
+  schedule,
+  settle,
+  waitFor,
+  type Pipeline,
+} from './utils/pipeline.ts'
+
+export type { ExecutionMode } from './utils/execution.ts'
 
 export interface CoreOptions extends ConstraintOptions {
-  if?(value: unknown, model: Model, field: Field): boolean | Promise<boolean>
+  if?(
+    value: unknown,
+    model: Model,
+    field: Field,
+    context: ValidationContext,
+  ): boolean | Promise<boolean>
+
+  /**
+   * Skips the constraint when it returns `true`, the opposite of `if`
+   */
+  unless?(
+    value: unknown,
+    model: Model,
+    field: Field,
+    context: ValidationContext,
+  ): boolean | Promise<boolean>
+
+  /**
+   * Conditions on other fields of the model, all of which must hold for the
+   * constraint to be applied
+   * @example
+   * { when: { field: 'country', is: 'BR' } }
+   */
+  when?: FieldConditions
+
+  /**
+   * The contexts in which the constraint is applied, such as `'create'` or
+   * `'update'`. Constraints without contexts or groups are always applied.
+   */
+  contexts?: readonly string[]
+
+  /**
+   * The groups the constraint belongs to, such as `'draft'` or `'publish'`.
+   * Like `contexts`, the constraint is only applied when one of them is among the
+   * contexts of the run.
+   */
+  groups?: readonly string[]
+
+  /**
+   * How long, in milliseconds, the validator may take to settle. Validators
+   * that take longer fail with a `timeout` error instead.
+   */
+  timeout?: number
+
+  /**
+   * Names constraints of the same field, applied before this one, that
+   * must not fail with an error for this one to be applied
+   */
+  dependsOn?: readonly string[]
+
+  /**
+   * Whether to skip the constraints of the field applied after this one
+   * when it fails with an error
+   */
+  bail?: boolean
 }
 
-async function validateConstraint<Options extends CoreOptions>(
+/**
+ * Applies a constraint to a model's field
+ * @param model The object whose property should be validated
+ * @param field The name of the model's field to be validated
+ * @param constraint The name of the constraint
+ * @param options The options provided to the constraint, or `true`
+ * @param registry The registry the constraint is looked up in
+ * @param onInvalidValue The invalid value policy
+ * @param context The validation run
+ * @returns The failed constraint, if it failed
+ */
+function* constraintErrorOf<Options extends CoreOptions>(
   model: Model,
   field: Field,
   constraint: string,
   options: Options | true,
-) {
-  if (options === true) {
-    options = {} as Options
-  }
+  registry: ConstraintRegistry,
+  onInvalidValue: InvalidValuePolicy,
+  context: ValidationContext,
+): Pipeline<ValidationError | undefined> {
+  options = withRunOptions(
+    options === true ? ({} as Options) : options,
+    context,
+  )
 
   const value = model[field]
-
   if (
-    typeof options.if === 'function' &&
-    !(await options.if(value, model, field))
+    isValueAllowed(value, options) ||
+    !isInContext(options, context) ||
+    !conditionsHold(options.when, model)
   )
     return
 
-  switch (constraint) {
-    case 'presence':
-      return validatePresence(model, field, value, options)
-
-    case 'absence':
-      return validateAbsence(model, field, value, options)
+  context.signal?.throwIfAborted()
 
-    case 'type':
-      if (!('type' in options) || !TYPE_VALUES.includes(options.type as Type)) {
-        const errorMessage = 'A valid type string must be supplied'
-        throw new RequiredOptionMissingError(errorMessage)
-      }
+  for (const hook of ['if', 'unless'] as const) {
+    if (typeof options[hook] !== 'function') continue
 
-      return validateType(model, field, value, options as TypeConstraintOptions)
+    const condition = yield* settle(
+      options[hook](value, model, field, context),
+      `The condition of ${constraint} on ${String(field)}`,
+    )
+    if (hook === 'if' ? !condition : condition) return
+  }
 
-    case 'instance':
-      if (
-        !('Constructor' in options) ||
-        typeof options.constructor !== 'function'
-      ) {
-        const errorMessage = 'A valid constructor or class must be supplied'
-        throw new InvalidValueForConstraintError(errorMessage)
-      }
+  const definition = definitionFor(constraint, options, registry)
+  context.signal?.throwIfAborted()
 
-      return validateInstance(
-        model,
-        field,
-        value,
-        options as InstanceConstraintOptions<never>,
-      )
+  let result
+  try {
+    result = yield* settle(
+      definition.validator(model, field, value, options, context),
+      `The validator of ${constraint} on ${String(field)}`,
+      options.timeout,
+    )
+  } catch (error) {
+    context.signal?.throwIfAborted()
+    return handleInvalidValue(error, onInvalidValue, {
+      model,
+      field,
+      value,
+      constraint,
+      options,
+    })
+  }
 
-    case 'length':
-      return validateLength(model, field, value, options)
+  context.signal?.throwIfAborted()
 
-    case 'email':
-      return validateEmail(model, field, value, options)
+  if (result === TIMED_OUT) {
+    return timeoutErrorFor(model, field, value, constraint, options)
+  }
+  return errorFromResult(
+    model,
+    field,
+    value,
+    constraint,
+    options,
+    result as string | ValidationError | void,
+  )
+}
 
-    case 'format':
-      if (!('pattern' in options) || !(options.pattern instanceof RegExp)) {
-        const errorMessage = 'Pattern for validation must be supplied'
-        throw new RequiredOptionMissingError(errorMessage)
-      }
-      return validateFormat(
-        model,
-        field,
-        value,
-        options as FormatConstraintOptions,
-      )
-
-    case 'confirmation':
-      if (
-        !('on' in options) ||
-        !['string', 'number', 'symbol'].includes(typeof options.on)
-      ) {
-        const errorMessage =
-          'The name of the confirmation field must be provided'
-        throw new RequiredOptionMissingError(errorMessage)
-      }
-      return validateConfirmation(
-        model,
-        field,
-        value,
-        options as ConfirmationConstraintOptions,
-      )
+/**
+ * Completes the options provided to a constraint with the settings of the
+ * validation run. Translation settings of the constraint take precedence
+ * over the run's.
+ * @param options The options provided to the constraint
+ * @param context The validation run
+ */
+function withRunOptions<Options extends CoreOptions>(
+  options: Options,
+  { i18n }: ValidationContext,
+): Options {
+  if (!i18n) return options
+  return { ...options, i18n: { ...i18n, ...options.i18n } }
+}
 
-    case 'inclusion':
-      if (!('in' in options) || !Array.isArray(options.in)) {
-        const errorMessage = 'An array of the accepted values must be provided'
-        throw new RequiredOptionMissingError(errorMessage)
-      }
-      return validateInclusion(
-        model,
-        field,
-        value,
-        options as InclusionConstraintOptions,
-      )
+/**
+ * Checks whether a constraint is applied in the contexts of the validation
+ * run: either it is not tagged with any, or one of its contexts or groups is
+ * active
+ * @param options The options provided to the constraint
+ * @param context The validation run
+ */
+function isInContext(
+  { contexts: tagged = [], groups = [] }: CoreOptions,
+  { contexts = [] }: ValidationContext,
+) {
+  const tags = [...tagged, ...groups]
+  return tags.length === 0 || tags.some((tag) => contexts.includes(tag))
+}
 
-    case 'exclusion':
-      if (!('from' in options) || !Array.isArray(options.from)) {
-        const errorMessage = 'An array of the rejected values must be provided'
-        throw new RequiredOptionMissingError(errorMessage)
-      }
+/**
+ * Lists the contexts a validation run was started with
+ * @param context The context, or contexts, of the run
+ */
+function contextsOf(context: string | readonly string[] | undefined) {
+  if (context === undefined) return []
+  return typeof context === 'string' ? [context] : context
+}
 
-      return validateExclusion(
-        model,
-        field,
-        value,
-        options as ExclusionConstraintOptions,
-      )
+/**
+ * Checks whether a constraint should be skipped because its options allow
+ * the value as is
+ * @param value The value of the field
+ * @param options The options provided to the constraint
+ */
+function isValueAllowed(
+  value: unknown,
+  { allowNull, allowUndefined, allowBlank }: CoreOptions,
+) {
+  return (
+    (allowNull === true && value === null) ||
+    (allowUndefined === true && value === undefined) ||
+    (allowBlank === true && isBlank(value))
+  )
+}
 
-    case 'uuid':
-      return validateUUID(model, field, value, options)
+/**
+ * Fetches the definition of a constraint, ensuring the options provided to
+ * it are usable by its validator
+ * @param constraint The name of the constraint
+ * @param options The options provided to the constraint
+ * @param registry The registry the constraint is looked up in
+ */
+function definitionFor(
+  constraint: string,
+  options: CoreOptions,
+  registry: ConstraintRegistry,
+) {
+  const definition = registry.lookup(constraint)
+  if (!definition) {
+    throw new UnknownConstraintError(`Unknown constraint ${constraint}`)
+  }
 
-    case 'custom':
-      if (!('with' in options) || typeof options.with !== 'function') {
-        const errorMessage = 'A custom validator function must be provided'
-        throw new RequiredOptionMissingError(errorMessage)
-      }
-      return validateCustom(
-        model,
-        field,
-        value,
-        options as CustomConstraintOptions,
-      )
+  definition.checkOptions?.(options)
+  return definition
+}
 
-    default:
-      throw new UnknownConstraintError(`Unknown constraint ${constraint}`)
+/**
+ * Describes the failure reported by a validator, if any
+ * @param model The model being validated
+ * @param field The name of the model's field being validated
+ * @param value The value of the field
+ * @param constraint The name of the constraint applied
+ * @param options The options provided to the constraint
+ * @param result What the validator returned
+ */
+function errorFromResult(
+  model: Model,
+  field: Field,
+  value: unknown,
+  constraint: string,
+  options: CoreOptions,
+  result: string | ValidationError | void,
+) {
+  if (!result) return
+  if (typeof result === 'string') {
+    return validationErrorFor(model, field, value, constraint, result, {
+      ...options,
+      message: result,
+    })
+  }
+  if (options.severity === undefined || result.severity !== undefined) {
+    return result
   }
+  return { ...result, severity: options.severity }
+}
+
+/**
+ * Describes a constraint whose validator did not settle within its timeout
+ * @param model The model being validated
+ * @param field The name of the model's field being validated
+ * @param value The value of the field
+ * @param constraint The name of the constraint that timed out
+ * @param options The options provided to the constraint. Its message and
+ * translation key describe failures of the constraint itself, so they are
+ * not used
+ */
+function timeoutErrorFor(
+  model: Model,
+  field: Field,
+  value: unknown,
+  constraint: string,
+  options: CoreOptions,
+) {
+  const { i18n } = options
+  const defaultMessage = 'Took too long to validate'
+
+  return validationErrorFor(model, field, value, 'timeout', defaultMessage, {
+    ...options,
+    message: undefined,
+    i18n: i18n && { handler: i18n.handler, prefix: i18n.prefix },
+    timedOut: constraint,
+  })
+}
+
+/**
+ * Defines what happens when a constraint cannot be applied to a value of
+ * the wrong type, i.e. when an `InvalidValueForConstraintError` is thrown:
+ *   1. `throw`: the error is rethrown, rejecting the validation;
+ *   2. `fail`: the constraint fails with an `invalidValue` error;
+ *   3. `skip`: the constraint is ignored.
+ */
+export type InvalidValuePolicy = 'throw' | 'fail' | 'skip'
+
+/**
+ * Applies the invalid value policy to an error thrown while applying a
+ * constraint. Errors other than `InvalidValueForConstraintError` are
+ * always rethrown.
+ * @param error The error thrown
+ * @param policy The invalid value policy
+ * @param failure The constraint that threw the error and the value it was
+ * applied to. Its message and translation key describe failures of the
+ * constraint itself, so they are not used
+ * @returns An `invalidValue` error when the policy is `fail`
+ */
+function handleInvalidValue(
+  error: unknown,
+  policy: InvalidValuePolicy,
+  {
+    model,
+    field,
+    value,
+    constraint,
+    options,
+  }: {
+    model: Model
+    field: Field
+    value: unknown
+    constraint: string
+    options: CoreOptions
+  },
+) {
+  if (policy === 'throw' || !(error instanceof InvalidValueForConstraintError))
+    throw error
+  if (policy === 'skip') return
+
+  const { i18n } = options
+
+  return validationErrorFor(
+    model,
+    field,
+    value,
+    'invalidValue',
+    error.message,
+    {
+      ...options,
+      message: undefined,
+      i18n: i18n && { handler: i18n.handler, prefix: i18n.prefix },
+      invalidFor: constraint,
+    },
+  )
 }
 
 export type FieldValidationHaltBy = 'never' | 'first-error'
-export type FieldConstraints = Record<string, CoreOptions>
+
+/**
+ * Defines how failed constraints are reported:
+ *   1. `messages`: as error messages;
+ *   2. `errors`: as `ValidationError` objects.
+ */
+export type ValidationOutput = 'messages' | 'errors'
+
+/**
+ * Resolves the type under which each failed constraint is reported
+ * @see ValidationOutput
+ */
+export type ValidationOutputOf<Output extends ValidationOutput> =
+  Output extends 'errors' ? ValidationError : string
+
+/**
+ * Reports failed constraints in the requested output format
+ * @param errors The failed constraints
+ * @param output The output format
+ */
+function present<Output extends ValidationOutput>(
+  errors: ValidationError[],
+  output: Output,
+) {
+  return (
+    output === 'errors' ? errors : errors.map(({ message }) => message)
+  ) as ValidationOutputOf<Output>[]
+}
+
+/**
+ * Lists the severities failures are grouped by, from the most serious
+ */
+const SEVERITIES: readonly Severity[] = ['error', 'warning', 'info']
+
+/**
+ * Resolves the severity of a failed constraint
+ * @param error The failed constraint
+ */
+function severityOf({ severity = 'error' }: ValidationError) {
+  return severity
+}
+
+/**
+ * Checks whether a failed constraint is an error. Warnings and info
+ * neither invalidate the model nor halt validation.
+ * @param error The failed constraint, if any
+ */
+export function isError(
+  error: ValidationError | undefined,
+): error is ValidationError {
+  return error !== undefined && severityOf(error) === 'error'
+}
+
+/**
+ * Resolves the result of validating a field: its errors or, when
+ * `bySeverity` is set, its failures grouped by severity
+ */
+export type FieldValidationResult<
+  Output extends ValidationOutput,
+  BySeverity extends boolean = false,
+> = BySeverity extends true
+  ? Record<Severity, ValidationOutputOf<Output>[]>
+  : ValidationOutputOf<Output>[]
+
+/**
+ * Reports the failed constraints of a field in the requested output
+ * format: only its errors or every failure grouped by severity
+ * @param errors The failed constraints
+ * @param output The output format
+ * @param bySeverity Whether to group failures by severity
+ */
+function presentField<
+  Output extends ValidationOutput,
+  BySeverity extends boolean,
+>(errors: ValidationError[], output: Output, bySeverity: BySeverity) {
+  const withSeverity = (severity: Severity) =>
+    present(
+      errors.filter((error) => severityOf(error) === severity),
+      output,
+    )
+
+  return (
+    bySeverity
+      ? Object.fromEntries(
+          SEVERITIES.map((severity) => [severity, withSeverity(severity)]),
+        )
+      : withSeverity('error')
+  ) as FieldValidationResult<Output, BySeverity>
+}
+
+/**
+ * Resolves the model nested within a field's value, falling back to
+ * `Model` when the value's type is unknown or not an object
+ */
+type NestedModel<Value> = unknown extends Value
+  ? Model
+  : [NonNullable<Value>] extends [never]
+    ? Model
+    : NonNullable<Value> extends Model
+      ? NonNullable<Value>
+      : Model
+
+/**
+ * Contains the constraints applied to the fields of an object-valued field
+ */
+export interface NestedConstraintOptions<Value = unknown> {
+  constraints: ModelConstraints<NestedModel<Value>>
+}
+
+/**
+ * Maps constraint names to their options. Each constraint accepts the core
+ * options plus the ones declared for it in `ConstraintOptionsMap`. Constraints
+ * without required options can also be enabled with `true`.
+ *
+ * Additionally, two structural constraints descend into the field's value:
+ *   1. `nested` validates the fields of an object value;
+ *   2. `each` validates every element of an array value.
+ * These are only applied by `validate`.
+ *
+ * The `label` of a field is not a constraint: it names the field in error
+ * messages, either as is or as a translation key. Neither is its `when`:
+ * none of the field's constraints, structural ones included, are applied
+ * unless its conditions hold.
+ */
+export type FieldConstraints<Value = unknown> = {
+  [Constraint in keyof ConstraintOptionsMap]?:
+    | (ConstraintOptionsMap[Constraint] & CoreOptions)
+    | (Partial<
+        ConstraintOptionsMap[Constraint]
+      > extends ConstraintOptionsMap[Constraint]
+        ? true
+        : never)
+} & {
+  label?: string
+  when?: FieldConditions
+  nested?: NestedConstraintOptions<Value>
+  each?: AnyFieldConstraints<
+    NonNullable<Value> extends readonly (infer Item)[] ? Item : unknown
+  >
+}
+
+/**
+ * Lists the constraints applied to a field in the order they are applied.
+ * Constraints within an entry are applied in key order, and the same
+ * constraint may appear in several entries.
+ * @example
+ * [{ presence: true }, { format: { pattern: /^\w+$/ } }, { custom: { with: isAvailable } }]
+ */
+export type OrderedFieldConstraints<Value = unknown> =
+  readonly FieldConstraints<Value>[]
+
+/**
+ * The constraints applied to a field, in either form
+ */
+export type AnyFieldConstraints<Value = unknown> =
+  | FieldConstraints<Value>
+  | OrderedFieldConstraints<Value>
+
+/**
+ * Checks whether a field's constraints are given in the ordered form
+ * @param constraints The constraints applied to the field
+ */
+function isOrdered(
+  constraints: AnyFieldConstraints,
+): constraints is OrderedFieldConstraints {
+  return Array.isArray(constraints)
+}
+
+/**
+ * Lists the entries of a field's constraints in the order they are applied
+ * @param constraints The constraints applied to the field, in either form
+ */
+export function entriesOf(constraints: AnyFieldConstraints) {
+  return isOrdered(constraints)
+    ? constraints.flatMap((entry) => Object.entries(entry))
+    : Object.entries(constraints)
+}
+
+/**
+ * Merges a field's constraints into a single object, the last entry of a
+ * constraint winning
+ * @param constraints The constraints applied to the field, in either form
+ */
+function mergedConstraintsOf(constraints: AnyFieldConstraints) {
+  return (
+    isOrdered(constraints) ? Object.assign({}, ...constraints) : constraints
+  ) as FieldConstraints
+}
+
+/**
+ * Names of the constraints handled by `validate` itself instead of being
+ * looked up in a registry
+ */
+const STRUCTURAL_CONSTRAINTS = ['nested', 'each'] as const
+
+/**
+ * Names of the field settings that sit alongside its constraints
+ */
+export const FIELD_SETTINGS = ['label', 'when'] as const
+
+/**
+ * Checks whether the conditions of a field, if any, hold for its model
+ * @param model The object holding the field
+ * @param constraints The constraints applied to the field
+ */
+function isFieldConditionMet(model: Model, constraints: AnyFieldConstraints) {
+  return conditionsHold(mergedConstraintsOf(constraints).when, model)
+}
+
+/**
+ * Lists the constraints applied to a field by its validator, in order,
+ * leaving out structural constraints. The field's label is passed on to
+ * each of them, unless they provide their own. None are applied unless the
+ * field's conditions hold.
+ * @param model The object holding the field
+ * @param constraints The constraints applied to the field
+ */
+function appliedConstraintsOf(model: Model, constraints: AnyFieldConstraints) {
+  if (!isFieldConditionMet(model, constraints)) return []
+
+  const { label } = mergedConstraintsOf(constraints)
+
+  return entriesOf(constraints)
+    .filter(
+      ([constraint, options]) =>
+        options !== undefined &&
+        !(
+          [...STRUCTURAL_CONSTRAINTS, ...FIELD_SETTINGS] as readonly string[]
+        ).includes(constraint),
+    )
+    .map(([constraint, options]): [string, CoreOptions | true] => [
+      constraint,
+      label === undefined
+        ? (options as CoreOptions | true)
+        : { label, ...(options === true ? {} : (options as CoreOptions)) },
+    ])
+}
+
+/**
+ * Lists the constraints a constraint waits for: the ones it depends on and
+ * the preceding ones that bail
+ * @param applied The constraints applied to the field, in order
+ * @param index The position of the constraint
+ * @returns The positions of the constraints waited for
+ * @throws UnknownConstraintError if the constraint depends on one that is
+ * not applied before it
+ */
+function prerequisitesOf(
+  applied: [string, CoreOptions | true][],
+  index: number,
+) {
+  const [constraint, options] = applied[index]!
+  const preceding = applied.slice(0, index)
+  const prerequisites = new Set<number>()
+
+  for (const [position, [, precedingOptions]] of preceding.entries()) {
+    if (precedingOptions !== true && precedingOptions.bail === true) {
+      prerequisites.add(position)
+    }
+  }
+
+  for (const dependency of (options !== true && options.dependsOn) || []) {
+    const positions = [...preceding.keys()].filter(
+      (position) => preceding[position]![0] === dependency,
+    )
+    if (positions.length === 0) {
+      const errorMessage = `Unknown constraint ${dependency} in the dependencies of ${constraint}; it must be applied before`
+      throw new UnknownConstraintError(errorMessage)
+    }
+    positions.forEach((position) => prerequisites.add(position))
+  }
+
+  return [...prerequisites]
+}
+
+/**
+ * Collects the labels of the fields of a model
+ * @param constraints The constraints applied to each field
+ */
+export function labelsOf(constraints: ModelConstraints) {
+  const labels: Partial<Record<Field, string>> = {}
+
+  for (const [field, fieldConstraints] of Object.entries<
+    AnyFieldConstraints | undefined
+  >(constraints)) {
+    if (fieldConstraints === undefined) continue
+
+    const { label } = mergedConstraintsOf(fieldConstraints)
+    if (label !== undefined) {
+      labels[field] = label
+    }
+  }
+
+  return labels
+}
+
+/**
+ * Options accepted by `validateField`
+ */
+export interface FieldValidationOptions<
+  Output extends ValidationOutput = ValidationOutput,
+  BySeverity extends boolean = boolean,
+> {
+  /**
+   * Whether to abort validation after a constraint fails
+   */
+  haltBy?: FieldValidationHaltBy
+
+  /**
+   * The registry constraint names are looked up in. Defaults to the
+   * global `defaultRegistry`.
+   */
+  registry?: ConstraintRegistry
+
+  /**
+   * How failed constraints are reported. Defaults to `messages`.
+   */
+  output?: Output
+
+  /**
+   * Whether to report every failure grouped by severity, under `error`,
+   * `warning` and `info`, instead of only errors. Defaults to `false`.
+   */
+  bySeverity?: BySeverity
+
+  /**
+   * Whether constraints are applied one after another or at the same
+   * time. Defaults to `sequential`.
+   */
+  execution?: ExecutionMode
+
+  /**
+   * What happens when a constraint cannot be applied to a value of the
+   * wrong type. Defaults to `throw`.
+   * @see InvalidValuePolicy
+   */
+  onInvalidValue?: InvalidValuePolicy
+
+  /**
+   * Cancels the validation. Once it aborts, no further constraints are
+   * applied and validation rejects with the signal's reason.
+   */
+  signal?: AbortSignal
+
+  /**
+   * How error messages are translated, unless constraints configure it
+   * themselves
+   */
+  i18n?: I18nOptions
+
+  /**
+   * The labels of fields whose constraints are not validated, such as
+   * the other field of a `confirmation`. Fields labelled in their own
+   * constraints keep that label.
+   */
+  labels?: Partial<Record<Field, string>>
+
+  /**
+   * The contexts to validate in, such as `'create'` or `'update'`. Only
+   * constraints tagged with one of them, through `contexts` or `groups`, or not
+   * tagged at all are applied.
+   */
+  context?: string | readonly string[]
+}
+
+/**
+ * Applies a set of constraints to a model's field
+ * @param model The object whose property should be validated
+ * @param field The name of the model's field to be validated
+ * @param constraints The constraints to apply to the field
+ * @param options The options `validateField` was called with
+ * @returns The failed constraints
+ */
+function* fieldErrorsOf(
+  model: Model,
+  field: Field,
+  constraints: AnyFieldConstraints,
+  {
+    haltBy,
+    registry,
+    onInvalidValue,
+    context,
+  }: Required<
+    Pick<FieldValidationOptions, 'haltBy' | 'registry' | 'onInvalidValue'>
+  > & {
+    context: ValidationContext
+  },
+): Pipeline<ValidationError[]> {
+  const applied = appliedConstraintsOf(model, constraints)
+
+  // Settles with whether each constraint failed, or was skipped because a
+  // constraint it waits for did not pass
+  const blocked = applied.map(() => new Outcome<boolean>())
+
+  const tasks = applied.map(([constraint, options], index) => {
+    const prerequisites = prerequisitesOf(applied, index)
+    const outcome = blocked[index]!
+
+    return function* (signal?: AbortSignal) {
+      try {
+        if (prerequisites.length > 0) {
+          const outcomes = yield* waitFor(
+            prerequisites.map((position) => blocked[position]!),
+          )
+          if (outcomes.includes(true)) {
+            outcome.settle(true)
+            return undefined
+          }
+        }
+
+        const error = yield* schedule(() =>
+          constraintErrorOf(
+            model,
+            field,
+            constraint,
+            options,
+            registry,
+            onInvalidValue,
+            { ...context, signal },
+          ),
+        )
+        outcome.settle(isError(error))
+        return error
+      } catch (error) {
+        outcome.settle(true)
+        throw error
+      }
+    }
+  })
+
+  const errors = yield* all(
+    tasks,
+    (error) => haltBy === 'first-error' && isError(error),
+    context.signal,
+  )
+
+  return errors.filter((error) => error !== undefined)
+}
 
 /**
  * Takes a model, the name of a field of that model and a set of constraints,
@@ -169,70 +810,682 @@ export type FieldConstraints = Record<string, CoreOptions>
  * @param field The name of the model's field to be validated
  * @param constraints An object describing which constraints should be applied
  * when validating the field. Keys must contain a known constraint name and values must
- * contain supported configuration options for each corresponding constraint
+ * contain supported configuration options for each corresponding constraint.
+ * An array of such objects applies them in array order.
+ * Structural constraints (`nested` and `each`) are ignored
  * @param haltBy Whether to abort validation after a constraint fails
- * @returns An array of error messages, if any. If all constraints were
- * successful, returns an empty array.
+ * @param registry The registry in which constraints are looked up
+ * @param output Whether to report error messages or `ValidationError` objects
+ * @param bySeverity Whether to report every failure grouped by severity
+ * instead of only errors
+ * @param execution Whether to apply constraints one after another or at the
+ * same time. Errors are reported in declaration order either way
+ * @param signal Cancels the validation, which then rejects with the signal's
+ * reason
+ * @param onInvalidValue Whether to throw, fail or skip constraints that cannot
+ * be applied to a value of the wrong type
+ * @param i18n How error messages are translated, unless constraints configure
+ * it themselves
+ * @param labels The labels of fields not labelled in their own constraints
+ * @param context The contexts to validate in. Constraints tagged with other
+ * contexts or groups are skipped
+ * @returns An array of error messages (or `ValidationError` objects), if any.
+ * If all constraints were successful, returns an empty array.
  */
-export async function validateField(
+export async function validateField<
+  M extends Model,
+  Output extends ValidationOutput = 'messages',
+  BySeverity extends boolean = false,
+>(
+  model: M,
+  field: keyof M & Field,
+  constraints: AnyFieldConstraints,
+  {
+    haltBy = 'never',
+    registry = defaultRegistry,
+    output = 'messages' as Output,
+    execution = 'sequential',
+    onInvalidValue = 'throw',
+    signal,
+    i18n,
+    labels,
+    context: runContext,
+    bySeverity = false as BySeverity,
+  }: FieldValidationOptions<Output, BySeverity> = {},
+) {
+  const errors = await run(
+    fieldErrorsOf(model, field, constraints, {
+      haltBy,
+      registry,
+      onInvalidValue,
+      context: { signal, i18n, labels, contexts: contextsOf(runContext) },
+    }),
+    new Executor(execution),
+  )
+
+  return presentField(errors, output, bySeverity)
+}
+
+export type ModelValidationHaltBy =
+  | 'never'
+  | 'first-error'
+  | 'first-field-error'
+
+/**
+ * Maps the fields of a model to the constraints applied to each of them
+ */
+export type ModelConstraints<M extends Model = Model> = {
+  [F in keyof M]?: AnyFieldConstraints<M[F]>
+}
+
+/**
+ * Designates a field of `M` or, through dot and bracket notation, a field
+ * nested within it (e.g.: `address.zip` or `items[2].quantity`)
+ */
+export type FieldPath<M extends Model = Model> =
+  | keyof M
+  | `${keyof M & string}.${string}`
+  | `${keyof M & string}[${number}]${string}`
+
+/**
+ * Options accepted by `validate`
+ */
+export interface ModelValidationOptions<
+  Output extends ValidationOutput = ValidationOutput,
+  BySeverity extends boolean = boolean,
+> {
+  /**
+   * When to halt validation
+   */
+  haltBy?: ModelValidationHaltBy
+
+  /**
+   * The registry constraint names are looked up in. Defaults to the
+   * global `defaultRegistry`.
+   */
+  registry?: ConstraintRegistry
+
+  /**
+   * How failed constraints are reported. Defaults to `messages`.
+   */
+  output?: Output
+
+  /**
+   * Whether to report every failure grouped by severity, under `error`,
+   * `warning` and `info`, instead of only errors. Defaults to `false`.
+   */
+  bySeverity?: BySeverity
+
+  /**
+   * Whether fields and constraints are validated one after another or at
+   * the same time. Defaults to `sequential`.
+   */
+  execution?: ExecutionMode
+
+  /**
+   * What happens when a constraint cannot be applied to a value of the
+   * wrong type. Defaults to `throw`.
+   * @see InvalidValuePolicy
+   */
+  onInvalidValue?: InvalidValuePolicy
+
+  /**
+   * Cancels the validation. Once it aborts, no further constraints are
+   * applied and validation rejects with the signal's reason.
+   */
+  signal?: AbortSignal
+
+  /**
+   * How error messages are translated, unless constraints configure it
+   * themselves
+   */
+  i18n?: I18nOptions
+
+  /**
+   * The labels of fields whose constraints are not validated, such as
+   * the other field of a `confirmation`. Fields labelled in their own
+   * constraints keep that label.
+   */
+  labels?: Partial<Record<Field, string>>
+
+  /**
+   * The contexts to validate in, such as `'create'` or `'update'`. Only
+   * constraints tagged with one of them, through `contexts` or `groups`, or not
+   * tagged at all are applied.
+   */
+  context?: string | readonly string[]
+}
+
+/**
+ * Holds the errors found while validating a field and the fields nested
+ * within it
+ */
+interface PathResult {
+  /**
+   * The errors found, paired with the path of the field they belong to,
+   * in declaration order
+   */
+  errors: [path: string, errors: ValidationError[]][]
+
+  /**
+   * Whether validation should halt
+   */
+  halted: boolean
+}
+
+/**
+ * Designates a field nested within another one through a structural
+ * constraint
+ */
+interface ChildPath {
+  model: Model
+  field: Field
+  constraints: AnyFieldConstraints
+  path: string
+  labels: Partial<Record<Field, string>>
+}
+
+/**
+ * Describes the outcome of validating a field's own constraints
+ * @param path The path of the field
+ * @param errors The errors found
+ * @param haltBy When to halt validation
+ */
+function pathResultFor(
+  path: string,
+  errors: ValidationError[],
+  haltBy: ModelValidationHaltBy,
+): PathResult {
+  return {
+    errors: errors.length > 0 ? [[path, errors]] : [],
+    halted: errors.some(isError) && haltBy === 'first-error',
+  }
+}
+
+/**
+ * Lists the fields a structural constraint descends into
+ * @param value The value of the field
+ * @param constraint The name of the structural constraint
+ * @param constraints The constraints applied to the field
+ * @param path The path of the field
+ */
+function childPathsOf(
+  value: unknown,
+  constraint: 'nested' | 'each',
+  constraints: AnyFieldConstraints,
+  path: string,
+) {
+  const { nested, each } = mergedConstraintsOf(constraints)
+  const children: ChildPath[] = []
+
+  if (value === null || value === undefined) return children
+
+  if (constraint === 'nested' && nested !== undefined) {
+    if (typeof value !== 'object') {
+      const errorMessage = 'Nested constraints can only be applied to objects'
+      throw new InvalidValueForConstraintError(errorMessage)
+    }
+
+    const labels = labelsOf(nested.constraints)
+
+    for (const [childField, childConstraints] of Object.entries<
+      AnyFieldConstraints | undefined
+    >(nested.constraints)) {
+      if (childConstraints === undefined) continue
+
+      children.push({
+        model: value as Model,
+        field: childField,
+        constraints: childConstraints,
+        path: `${path}.${childField}`,
+        labels,
+      })
+    }
+  }
+
+  if (constraint === 'each' && each !== undefined) {
+    if (!Array.isArray(value)) {
+      const errorMessage = 'Item constraints can only be applied to arrays'
+      throw new InvalidValueForConstraintError(errorMessage)
+    }
+
+    for (const index of value.keys()) {
+      children.push({
+        model: value as unknown as Model,
+        field: String(index),
+        constraints: each,
+        path: `${path}[${index}]`,
+        labels: {},
+      })
+    }
+  }
+
+  return children
+}
+
+/**
+ * Describes the outcome of validating a field's own constraints, then lists
+ * the fields its structural constraints descend into, unless validation
+ * halts. Structural constraints that cannot be applied to the field's value
+ * are handled according to the invalid value policy.
+ * @param model The object whose property was validated
+ * @param field The name of the validated field
+ * @param constraints The constraints applied to the field
+ * @param path The path of the field
+ * @param errors The errors found for the field's own constraints
+ * @param options The options `validate` was called with
+ */
+function expandPath(
   model: Model,
   field: Field,
-  constraints: FieldConstraints,
-  { haltBy = 'never' }: { haltBy?: FieldValidationHaltBy } = {},
+  constraints: AnyFieldConstraints,
+  path: string,
+  errors: ValidationError[],
+  {
+    haltBy,
+    onInvalidValue,
+    context,
+  }: Required<Pick<ModelValidationOptions, 'haltBy' | 'onInvalidValue'>> & {
+    context: ValidationContext
+  },
 ) {
-  const result = []
+  const value = model[field]
+  const children: ChildPath[] = []
+  let result = pathResultFor(path, errors, haltBy)
+
+  if (!isFieldConditionMet(model, constraints)) return { result, children }
 
-  for (const [constraint, options] of Object.entries(constraints) ?? {}) {
-    const error = await validateConstraint(model, field, constraint, options)
+  for (const constraint of STRUCTURAL_CONSTRAINTS) {
+    if (result.halted) return { result, children: [] }
 
-    if (error) {
-      result.push(error)
-      if (haltBy === 'first-error') break
+    try {
+      children.push(...childPathsOf(value, constraint, constraints, path))
+    } catch (error) {
+      const failure = handleInvalidValue(error, onInvalidValue, {
+        model,
+        field,
+        value,
+        constraint,
+        options: withRunOptions({}, context),
+      })
+
+      if (failure && (haltBy === 'never' || !errors.some(isError))) {
+        errors = [...errors, failure]
+        result = pathResultFor(path, errors, haltBy)
+      }
     }
   }
 
+  return { result, children: result.halted ? [] : children }
+}
+
+/**
+ * Validates a field against its constraints, including structural ones
+ * @param model The object whose property should be validated
+ * @param field The name of the model's field to be validated
+ * @param constraints The constraints to apply to the field
+ * @param path The path under which the field's errors are reported
+ * @param options The options `validate` was called with
+ * @returns The errors found for the field and its nested fields
+ */
+function* pathResultOf(
+  model: Model,
+  field: Field,
+  constraints: AnyFieldConstraints,
+  path: string,
+  {
+    haltBy,
+    registry,
+    onInvalidValue,
+    context,
+  }: Required<
+    Pick<ModelValidationOptions, 'haltBy' | 'registry' | 'onInvalidValue'>
+  > & {
+    context: ValidationContext
+  },
+): Pipeline<PathResult> {
+  const errors = yield* fieldErrorsOf(model, field, constraints, {
+    haltBy: haltBy !== 'never' ? 'first-error' : 'never',
+    registry,
+    onInvalidValue,
+    context,
+  })
+
+  const { result, children } = expandPath(
+    model,
+    field,
+    constraints,
+    path,
+    errors,
+    { haltBy, onInvalidValue, context },
+  )
+
+  const tasks = children.map(
+    (child) => (signal?: AbortSignal) =>
+      pathResultOf(child.model, child.field, child.constraints, child.path, {
+        haltBy,
+        registry,
+        onInvalidValue,
+        context: { ...context, labels: child.labels, signal },
+      }),
+  )
+
+  for (const child of yield* all(tasks, isHalted, context.signal)) {
+    result.errors.push(...child.errors)
+    result.halted ||= child.halted
+  }
+
   return result
 }
 
-export type ModelValidationHaltBy =
-  | 'never'
-  | 'first-error'
-  | 'first-field-error'
-export type ModelConstraints = Record<string, FieldConstraints>
+/**
+ * Checks whether the validation of a field halted the run
+ * @param result The field's result
+ */
+function isHalted({ halted }: PathResult) {
+  return halted
+}
+
+/**
+ * Validates a model against its constraints
+ * @param model The object to be validated
+ * @param modelConstraints The constraints to apply to each field, possibly
+ * compiled by `compileConstraints`
+ * @param options The options `validate` was called with
+ * @returns The results of each validated field, in declaration order
+ */
+function* modelResultsOf<M extends Model>(
+  model: M,
+  modelConstraints: ModelConstraints<M> | CompiledConstraints<M>,
+  {
+    haltBy,
+    registry,
+    onInvalidValue,
+    signal,
+    i18n,
+    labels,
+    context: runContext,
+  }: Required<
+    Pick<ModelValidationOptions, 'haltBy' | 'registry' | 'onInvalidValue'>
+  > &
+    Pick<ModelValidationOptions, 'signal' | 'i18n' | 'labels' | 'context'>,
+): Pipeline<PathResult[]> {
+  if (modelConstraints instanceof CompiledConstraints) {
+    registry = modelConstraints.registry
+    modelConstraints = modelConstraints.constraints
+  }
+
+  const context: ValidationContext = {
+    signal,
+    i18n,
+    labels: { ...labels, ...labelsOf(modelConstraints) },
+    contexts: contextsOf(runContext),
+  }
+  const tasks = Object.entries<AnyFieldConstraints | undefined>(
+    modelConstraints,
+  )
+    .filter(
+      (entry): entry is [string, AnyFieldConstraints] => entry[1] !== undefined,
+    )
+    .map(
+      ([field, constraints]) =>
+        (signal?: AbortSignal) =>
+          pathResultOf(model, field, constraints, field, {
+            haltBy,
+            registry,
+            onInvalidValue,
+            context: { ...context, signal },
+          }),
+    )
+
+  return yield* all(tasks, isHalted, signal)
+}
 
 /**
  * Takes a model and a set of constraints, then validates the model
  * @param model The object to be validated
  * @param modelConstraints An object describing what fields should be validated
  * and which constraints to apply to each of them. Keys must contain the name of a field
- * and values must contain the constraint definitions for each corresponding field
+ * and values must contain the constraint definitions for each corresponding field,
+ * possibly in their ordered form.
+ * Constraints compiled by `compileConstraints` are validated without checking them again
  * @param haltBy {} When to halt validation
  *   1. `never`: Never halts
  *   2. `first-error`: Halts after any constraint fails in any field; fields not validated
  *      will remain so
  *   3. `first-field-error`: Halts after the first constraint fail for each field; all fields
  *      will be validated
- * @returns An object containing each validated field's error messages, if any.
- * If all constraints were successful for some field, its error array will be empty.
+ * @param registry The registry in which constraints are looked up. Ignored for
+ * compiled constraints, which were checked against their own registry
+ * @param output Whether to report error messages or `ValidationError` objects
+ * @param bySeverity Whether to report every failure grouped by severity
+ * instead of only errors
+ * @param execution Whether to validate fields and constraints one after another
+ * or at the same time. Errors are reported in declaration order either way, and
+ * `first-error` halts at the first failure in that order
+ * @param signal Cancels the validation, which then rejects with the signal's
+ * reason
+ * @param onInvalidValue Whether to throw, fail or skip constraints that cannot
+ * be applied to a value of the wrong type
+ * @param i18n How error messages are translated, unless constraints configure
+ * it themselves
+ * @param labels The labels of fields not labelled in their own constraints
+ * @param context The contexts to validate in. Constraints tagged with other
+ * contexts or groups are skipped
+ * @returns An object containing each validated field's error messages (or
+ * `ValidationError` objects), if any. Errors of fields validated through `nested` and `each` are stored under their
+ * paths, such as `address.zip` or `items[2].quantity`.
  */
-export async function validate(
-  model: Model,
-  modelConstraints: ModelConstraints,
-  { haltBy = 'never' }: { haltBy?: ModelValidationHaltBy } = {},
+export async function validate<
+  M extends Model,
+  Output extends ValidationOutput = 'messages',
+  BySeverity extends boolean = false,
+>(
+  model: M,
+  modelConstraints: ModelConstraints<M> | CompiledConstraints<M>,
+  {
+    haltBy = 'never',
+    registry = defaultRegistry,
+    output = 'messages' as Output,
+    execution = 'sequential',
+    onInvalidValue = 'throw',
+    signal,
+    i18n,
+    labels,
+    context: runContext,
+    bySeverity = false as BySeverity,
+  }: ModelValidationOptions<Output, BySeverity> = {},
 ) {
-  const result: Record<string, string[]> = {}
+  const results = await run(
+    modelResultsOf(model, modelConstraints, {
+      haltBy,
+      registry,
+      onInvalidValue,
+      signal,
+      i18n,
+      labels,
+      context: runContext,
+    }),
+    new Executor(execution),
+  )
 
-  for (const [field, constraints] of Object.entries(modelConstraints)) {
-    const haltFieldValidationBy = haltBy !== 'never' ? 'first-error' : 'never'
-    const errors = await validateField(model, field, constraints, {
-      haltBy: haltFieldValidationBy,
-    })
+  return presentResults<M, Output, BySeverity>(results, output, bySeverity)
+}
 
-    if (errors.length > 0) {
-      result[field] = errors
-      if (haltBy === 'first-error') break
-    }
-  }
+/**
+ * Resolves the result of validating a model: the errors of each field path
+ * or, when `bySeverity` is set, the failures of each severity
+ */
+export type ModelValidationResult<
+  M extends Model,
+  Output extends ValidationOutput,
+  BySeverity extends boolean = false,
+> = BySeverity extends true
+  ? Record<
+      Severity,
+      Partial<Record<FieldPath<M>, ValidationOutputOf<Output>[]>>
+    >
+  : Partial<Record<FieldPath<M>, ValidationOutputOf<Output>[]>>
 
-  return result
+/**
+ * Reports the failures found while validating a model in the requested
+ * output format, keyed by field path: only errors or every failure grouped
+ * by severity
+ * @param results The results of each validated field
+ * @param output The output format
+ * @param bySeverity Whether to group failures by severity
+ */
+function presentResults<
+  M extends Model,
+  Output extends ValidationOutput,
+  BySeverity extends boolean,
+>(results: PathResult[], output: Output, bySeverity: BySeverity) {
+  const failures = results.flatMap(({ errors }) => errors)
+  const withSeverity = (severity: Severity) =>
+    Object.fromEntries(
+      failures.flatMap(([path, pathErrors]) => {
+        const matching = pathErrors.filter(
+          (error) => severityOf(error) === severity,
+        )
+        return matching.length > 0 ? [[path, present(matching, output)]] : []
+      }),
+    )
+
+  return (
+    bySeverity
+      ? Object.fromEntries(
+          SEVERITIES.map((severity) => [severity, withSeverity(severity)]),
+        )
+      : withSeverity('error')
+  ) as ModelValidationResult<M, Output, BySeverity>
+}
+
+/**
+ * Options accepted by `validateFieldSync`
+ */
+export type SyncFieldValidationOptions<
+  Output extends ValidationOutput = ValidationOutput,
+  BySeverity extends boolean = boolean,
+> = Omit<FieldValidationOptions<Output, BySeverity>, 'execution' | 'signal'>
+
+/**
+ * Options accepted by `validateSync`
+ */
+export type SyncModelValidationOptions<
+  Output extends ValidationOutput = ValidationOutput,
+  BySeverity extends boolean = boolean,
+> = Omit<ModelValidationOptions<Output, BySeverity>, 'execution' | 'signal'>
+
+/**
+ * Synchronous counterpart of `validateField`, for constraint sets whose
+ * conditions and validators never return promises. Per-constraint
+ * timeouts do not apply.
+ * @param model The object whose property should be validated
+ * @param field The name of the model's field to be validated
+ * @param constraints The constraints to apply to the field. Structural
+ * constraints (`nested` and `each`) are ignored
+ * @param haltBy Whether to abort validation after a constraint fails
+ * @param registry The registry in which constraints are looked up
+ * @param output Whether to report error messages or `ValidationError` objects
+ * @param bySeverity Whether to report every failure grouped by severity
+ * instead of only errors
+ * @param onInvalidValue Whether to throw, fail or skip constraints that cannot
+ * be applied to a value of the wrong type
+ * @param i18n How error messages are translated, unless constraints configure
+ * it themselves
+ * @param labels The labels of fields not labelled in their own constraints
+ * @param context The contexts to validate in. Constraints tagged with other
+ * contexts or groups are skipped
+ * @returns An array of error messages (or `ValidationError` objects), if any
+ * @throws AsynchronousConstraintError if a condition or validator returns a
+ * promise
+ * @see validateField
+ */
+export function validateFieldSync<
+  M extends Model,
+  Output extends ValidationOutput = 'messages',
+  BySeverity extends boolean = false,
+>(
+  model: M,
+  field: keyof M & Field,
+  constraints: AnyFieldConstraints,
+  {
+    haltBy = 'never',
+    registry = defaultRegistry,
+    output = 'messages' as Output,
+    onInvalidValue = 'throw',
+    i18n,
+    labels,
+    context: runContext,
+    bySeverity = false as BySeverity,
+  }: SyncFieldValidationOptions<Output, BySeverity> = {},
+) {
+  const errors = runSync(
+    fieldErrorsOf(model, field, constraints, {
+      haltBy,
+      registry,
+      onInvalidValue,
+      context: { i18n, labels, contexts: contextsOf(runContext) },
+    }),
+  )
+
+  return presentField(errors, output, bySeverity)
+}
+
+/**
+ * Synchronous counterpart of `validate`, for constraint sets whose
+ * conditions and validators never return promises. Per-constraint
+ * timeouts do not apply.
+ * @param model The object to be validated
+ * @param modelConstraints The constraints to apply to each field, possibly
+ * compiled by `compileConstraints`
+ * @param haltBy When to halt validation
+ * @param registry The registry in which constraints are looked up. Ignored for
+ * compiled constraints, which were checked against their own registry
+ * @param output Whether to report error messages or `ValidationError` objects
+ * @param bySeverity Whether to report every failure grouped by severity
+ * instead of only errors
+ * @param onInvalidValue Whether to throw, fail or skip constraints that cannot
+ * be applied to a value of the wrong type
+ * @param i18n How error messages are translated, unless constraints configure
+ * it themselves
+ * @param labels The labels of fields not labelled in their own constraints
+ * @param context The contexts to validate in. Constraints tagged with other
+ * contexts or groups are skipped
+ * @returns An object containing each validated field's error messages (or
+ * `ValidationError` objects), if any, keyed by field path
+ * @throws AsynchronousConstraintError if a condition or validator returns a
+ * promise
+ * @see validate
+ */
+export function validateSync<
+  M extends Model,
+  Output extends ValidationOutput = 'messages',
+  BySeverity extends boolean = false,
+>(
+  model: M,
+  modelConstraints: ModelConstraints<M> | CompiledConstraints<M>,
+  {
+    haltBy = 'never',
+    registry = defaultRegistry,
+    output = 'messages' as Output,
+    onInvalidValue = 'throw',
+    i18n,
+    labels,
+    context: runContext,
+    bySeverity = false as BySeverity,
+  }: SyncModelValidationOptions<Output, BySeverity> = {},
+) {
+  const results = runSync(
+    modelResultsOf(model, modelConstraints, {
+      haltBy,
+      registry,
+      onInvalidValue,
+      i18n,
+      labels,
+      context: runContext,
+    }),
+  )
+
+  return presentResults<M, Output, BySeverity>(results, output, bySeverity)
 }
@@ -1,5 +1,12 @@
 import { isPresent } from '@ember/utils'
-import type { ConstraintOptions, Field, Model } from './common.ts'
+import type {
+  ConstraintOptions,
+  Field,
+  I18nHandler,
+  I18nTranslationOptions,
+  Model,
+  ValidationError,
+} from './common.ts'
 
 /**
  * Gets thrown when a constraint is not recognised
@@ -18,6 +25,106 @@ export class InvalidValueForConstraintError extends Error {}
  */
 export class RequiredOptionMissingError extends Error {}
 
+/**
+ * Gets thrown when a synchronous validation applies a constraint
+ * that settles asynchronously
+ */
+export class AsynchronousConstraintError extends Error {}
+
+/**
+ * Describes a problem found in a set of constraints
+ */
+export interface ConstraintProblem {
+  /**
+   * The path of the field the constraint applies to (e.g.: `address.zip`,
+   * or `items[].quantity` for constraints applied to every element)
+   */
+  path: string
+
+  /**
+   * The name of the constraint
+   */
+  constraint: string
+
+  /**
+   * The error describing the problem, usually an `UnknownConstraintError`
+   * or a `RequiredOptionMissingError`
+   */
+  error: Error
+}
+
+/**
+ * Gets thrown when compiling a set of constraints with problems,
+ * listing all of them
+ */
+export class InvalidConstraintsError extends Error {
+  /**
+   * Every problem found
+   */
+  readonly problems: ConstraintProblem[]
+
+  constructor(problems: ConstraintProblem[]) {
+    const details = problems.map(
+      ({ path, constraint, error }) =>
+        `  ${path} (${constraint}): ${error.message}`,
+    )
+    super(['Invalid constraints:', ...details].join('\n'))
+    this.problems = problems
+  }
+}
+
+/**
+ * Describes a failed constraint given the current context.
+ * This is called after a constraint is failed.
+ * @param model The model being validated
+ * @param field The name of the model's field being validated
+ * @param value The current value of the field that originated the error
+ * @param constraint The name of the constraint that originated the error
+ * @param defaultMessage The default message error to be returned
+ * @param options The validation options provided
+ * @returns An object describing the error, whose `key` is either
+ * `options.i18n.key` or `${options.i18n.prefix}.${constraint}` and whose
+ * `message` is resolved as in `messageForError`
+ * @see messageForError
+ */
+export function validationErrorFor<Options extends ConstraintOptions>(
+  model: Model,
+  field: Field,
+  value: unknown,
+  constraint: string,
+  defaultMessage: string,
+  options: Options,
+): ValidationError {
+  const { message, i18n, label, severity, ...otherOptions } = options
+  const key = i18n?.key ?? keyFor(constraint, i18n?.prefix)
+  const basics = { constraint, model, field, value, label: String(field) }
+  const translationOptions = {
+    ...basics,
+    ...otherOptions,
+    label:
+      label === undefined ? basics.label : translateLabel(label, basics, i18n),
+  }
+  const error = {
+    constraint,
+    field,
+    value,
+    key,
+    options: translationOptions,
+    ...(label !== undefined && { labelKeys: { label } }),
+    ...(severity !== undefined && { severity }),
+  }
+
+  if (isPresent(message)) {
+    return { ...error, message, hasCustomMessage: true }
+  }
+
+  if (i18n?.handler?.exists(key)) {
+    return { ...error, message: i18n.handler.t(key, translationOptions) }
+  }
+
+  return { ...error, message: defaultMessage }
+}
+
 /**
  * Gets the most appropriate error message given the current context.
  * This is called after a constraint is failed.
@@ -31,7 +138,8 @@ export class RequiredOptionMissingError extends Error {}
  *   1. `options.message` if it exists,
  *   2. The value returned by `options.i18n.handler.t` method if available,
  *       1. when called with `options.i18n.key` if it exists, or else
- *       2. when called with `validation.${constraint}`
+ *       2. when called with `${options.i18n.prefix}.${constraint}`, the
+ *          prefix defaulting to `validation`
  *   3. `defaultMessage`
  */
 export function messageForError<Options extends ConstraintOptions>(
@@ -42,21 +150,68 @@ export function messageForError<Options extends ConstraintOptions>(
   defaultMessage: string,
   options: Options,
 ) {
-  const { message, i18n, ...otherOptions } = options
-  if (isPresent(message)) {
-    return message
+  return validationErrorFor(
+    model,
+    field,
+    value,
+    constraint,
+    defaultMessage,
+    options,
+  ).message
+}
+
+/**
+ * Resolves a field label, translating it if it is a known translation key
+ * @param label The label, or its translation key
+ * @param basics The context of the failed constraint, provided to the
+ * internationalisation engine
+ * @param i18n The translation settings of the constraint
+ */
+export function translateLabel(
+  label: string,
+  basics: Omit<I18nTranslationOptions, 'label'>,
+  i18n: ConstraintOptions['i18n'],
+) {
+  const handler = i18n?.handler
+  return handler?.exists(label) ? handler.t(label, { ...basics, label }) : label
+}
+
+/**
+ * Builds the key under which the translation of a failed constraint is
+ * looked up
+ * @param constraint The name of the failed constraint
+ * @param prefix The prefix of the key. Defaults to `validation`
+ */
+function keyFor(constraint: string, prefix = 'validation') {
+  return prefix ? `${prefix}.${constraint}` : constraint
+}
+
+/**
+ * Translates the message of a failed constraint again, such as after the
+ * locale changes, along with the labels it interpolates. Custom messages,
+ * and messages without a translation, are kept as is.
+ * @param error The failed constraint
+ * @param handler The internationalisation engine
+ * @returns A copy of the error with the translated message, or the error
+ * itself if it cannot be translated
+ */
+export function translateError(
+  error: ValidationError,
+  handler: I18nHandler | undefined,
+): ValidationError {
+  if (error.hasCustomMessage || !handler?.exists(error.key)) {
+    return error
   }
 
-  const errorKey = i18n?.key ?? `validation.${constraint}`
-  if (i18n?.handler?.exists(errorKey)) {
-    return i18n.handler.t(errorKey, {
-      constraint,
-      model,
-      field,
-      value,
-      ...otherOptions,
-    })
+  const { constraint, model, field, value } = error.options
+  const options = { ...error.options }
+  for (const [option, label] of Object.entries(error.labelKeys ?? {})) {
+    options[option] = translateLabel(
+      label,
+      { constraint, model, field, value },
+      { handler },
+    )
   }
 
-  return defaultMessage
+  return { ...error, options, message: handler.t(error.key, options) }
 }
@@ -0,0 +1,28 @@
+import type { ValidationError } from '../common.ts'
+
+/**
+ * Defines the validation results accepted by the rendering helpers and
+ * components, i.e. the result of `validate` in any output format
+ */
+export type ValidationErrorsByField = Partial<
+  Record<string, readonly (string | ValidationError)[]>
+>
+
+/**
+ * Extracts the error messages of a field from a validation result
+ * @param errors The result of `validate`
+ * @param field The name (or path) of the field
+ * @returns The field's error messages, or an empty array if there are none
+ * @example
+ * {{#each (errorsFor this.errors "email") as |message|}}
+ *   <p>{{message}}</p>
+ * {{/each}}
+ */
+export default function errorsFor(
+  errors: ValidationErrorsByField | null | undefined,
+  field: string,
+) {
+  return (errors?.[field] ?? []).map((error) =>
+    typeof error === 'string' ? error : error.message,
+  )
+}
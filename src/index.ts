@@ -0,0 +1,160 @@
+export type {
+  Field,
+  Model,
+  I18nHandler,
+  I18nOptions,
+  I18nTranslationOptions,
+  ConstraintOptions,
+  Severity,
+  ValidationContext,
+  ValidationError,
+  ValidationResult,
+  ValidatorFunction,
+} from './common.ts'
+
+export {
+  validate,
+  validateField,
+  validateSync,
+  validateFieldSync,
+  type AnyFieldConstraints,
+  type CoreOptions,
+  type ExecutionMode,
+  type FieldConstraints,
+  type FieldPath,
+  type FieldValidationHaltBy,
+  type FieldValidationOptions,
+  type FieldValidationResult,
+  type InvalidValuePolicy,
+  type ModelConstraints,
+  type ModelValidationHaltBy,
+  type ModelValidationOptions,
+  type ModelValidationResult,
+  type NestedConstraintOptions,
+  type OrderedFieldConstraints,
+  type SyncFieldValidationOptions,
+  type SyncModelValidationOptions,
+  type ValidationOutput,
+  type ValidationOutputOf,
+} from './core.ts'
+
+export {
+  when,
+  type FieldCondition,
+  type FieldConditions,
+} from './conditions.ts'
+
+export {
+  FieldBuilder,
+  Schema,
+  field,
+  schema,
+  type ConstraintSetting,
+  type ModelOf,
+  type SchemaShape,
+  type FieldsOf,
+} from './schema.ts'
+
+export {
+  ValidationState,
+  createValidator,
+  type ValidationStateOptions,
+} from './validation-state.ts'
+
+export {
+  CompiledConstraints,
+  compileConstraints,
+  type CompileOptions,
+} from './compile.ts'
+
+export type { ConstraintOptionsMap } from './constraints.ts'
+
+export {
+  ConstraintRegistry,
+  defaultRegistry,
+  type ConstraintDefinition,
+  type OptionsChecker,
+  type RegisterOptions,
+} from './registry.ts'
+
+export {
+  AsynchronousConstraintError,
+  UnknownConstraintError,
+  InvalidValueForConstraintError,
+  RequiredOptionMissingError,
+  InvalidConstraintsError,
+  messageForError,
+  translateError,
+  type ConstraintProblem,
+  validationErrorFor,
+} from './error.ts'
+
+export {
+  validatePresence,
+  validateAbsence,
+  validateType,
+  validateInstance,
+  validateLength,
+  validateNumericality,
+  validateDate,
+  validateEmail,
+  validateFormat,
+  validateConfirmation,
+  validateComparison,
+  validateInclusion,
+  validateExclusion,
+  validateUUID,
+  validateCustom,
+  presenceErrorFor,
+  absenceErrorFor,
+  typeErrorFor,
+  instanceErrorFor,
+  lengthErrorFor,
+  numericalityErrorFor,
+  dateErrorFor,
+  emailErrorFor,
+  formatErrorFor,
+  confirmationErrorFor,
+  comparisonErrorFor,
+  inclusionErrorFor,
+  exclusionErrorFor,
+  uuidErrorFor,
+  type PresenceConstraintOptions,
+  type AbsenceConstraintOptions,
+  type TypeConstraintOptions,
+  type InstanceConstraintOptions,
+  type LengthConstraintOptions,
+  type NumericalityConstraintOptions,
+  type DateConstraintOptions,
+  type DateBound,
+  type DateLike,
+  type EmailConstraintOptions,
+  type FormatConstraintOptions,
+  type ConfirmationConstraintOptions,
+  type CompareConstraintOptions,
+  type Comparator,
+  type ComparisonOperator,
+  type InclusionConstraintOptions,
+  type ExclusionConstraintOptions,
+  type UUIDConstraintOptions,
+  type CustomConstraintOptions,
+} from './validators.ts'
+
+export { translations, type TranslationBundle } from './translations/index.ts'
+
+export { default as PerspectiveService } from './services/perspective.ts'
+
+export {
+  default as ValidationErrors,
+  type ValidationErrorsSignature,
+} from './components/validation-errors.gts'
+
+export {
+  default as ValidatedField,
+  type ValidatedFieldSignature,
+} from './components/validated-field.gts'
+
+export {
+  default as errorsFor,
+  type ValidationErrorsByField,
+} from './helpers/errors-for.ts'
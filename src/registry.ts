@@ -0,0 +1,136 @@
+import type { ConstraintOptions, ValidatorFunction } from './common.ts'
+import { builtinConstraints } from './constraints.ts'
+
+/**
+ * Defines the signature of functions that check whether the options
+ * provided to a constraint are usable by its validator.
+ */
+export type OptionsChecker = (options: ConstraintOptions) => void
+
+/**
+ * Describes how a named constraint is applied by `validate`.
+ */
+export interface ConstraintDefinition<
+  Options extends ConstraintOptions = ConstraintOptions,
+> {
+  /**
+   * The function invoked to validate a field's value
+   */
+  validator: ValidatorFunction<Options>
+
+  /**
+   * Invoked with the options provided to the constraint before the
+   * validator runs. It must throw (usually a `RequiredOptionMissingError`)
+   * if the options are not usable by the validator.
+   */
+  checkOptions?: OptionsChecker
+}
+
+/**
+ * Optional settings accepted when registering a constraint
+ */
+export interface RegisterOptions {
+  /**
+   * @see ConstraintDefinition.checkOptions
+   */
+  checkOptions?: OptionsChecker
+}
+
+/**
+ * Maps constraint names to the definitions used to apply them.
+ * Constraints are looked up by name during validation, so registering
+ * a constraint makes it available to every constraint set validated
+ * against this registry.
+ */
+export class ConstraintRegistry {
+  /**
+   * Stores the registered constraint definitions, keyed by name
+   * @private
+   */
+  private readonly definitions = new Map<string, ConstraintDefinition>()
+
+  /**
+   * Constructs a new registry
+   * @param definitions Constraint definitions the registry is
+   * initially populated with, keyed by constraint name
+   * @example
+   * const registry = new ConstraintRegistry(builtinConstraints)
+   */
+  constructor(
+    definitions: Readonly<Record<string, ConstraintDefinition<never>>> = {},
+  ) {
+    for (const [name, definition] of Object.entries(definitions)) {
+      // Validators are only handed the options of their own constraint
+      this.definitions.set(name, definition as ConstraintDefinition)
+    }
+  }
+
+  /**
+   * Registers a constraint under `name`, replacing any constraint
+   * previously registered under the same name -- built-ins included.
+   * @param name The name constraint sets will refer to
+   * @param validator The validator function applied by the constraint
+   * @param options Additional settings, such as an options checker
+   * @returns The registry itself, so calls can be chained
+   * @example
+   * registry.register('cpf', validateCPF, {
+   *   checkOptions(options) {
+   *     if (!('punctuated' in options)) {
+   *       throw new RequiredOptionMissingError('Punctuation must be set')
+   *     }
+   *   },
+   * })
+   */
+  register<Options extends ConstraintOptions>(
+    name: string,
+    validator: ValidatorFunction<Options>,
+    { checkOptions }: RegisterOptions = {},
+  ) {
+    this.definitions.set(name, {
+      validator,
+      checkOptions,
+    } as ConstraintDefinition)
+    return this
+  }
+
+  /**
+   * Removes the constraint registered under `name`
+   * @param name The name of the constraint to be removed
+   * @returns Whether a constraint was registered under `name`
+   */
+  unregister(name: string) {
+    return this.definitions.delete(name)
+  }
+
+  /**
+   * Checks whether a constraint is registered under `name`
+   * @param name The name of the constraint
+   */
+  has(name: string) {
+    return this.definitions.has(name)
+  }
+
+  /**
+   * Fetches the definition of the constraint registered under `name`
+   * @param name The name of the constraint
+   * @returns The constraint definition, or `undefined` if no constraint
+   * is registered under `name`
+   */
+  lookup(name: string) {
+    return this.definitions.get(name)
+  }
+
+  /**
+   * Creates an independent copy of this registry. Constraints registered
+   * on or removed from the copy do not affect the original.
+   */
+  clone() {
+    return new ConstraintRegistry(Object.fromEntries(this.definitions))
+  }
+}
+
+/**
+ * The registry used when no other is supplied to `validate` or
+ * `validateField`. It initially contains all built-in constraints.
+ */
+export const defaultRegistry = new ConstraintRegistry(builtinConstraints)
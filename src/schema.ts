@@ -0,0 +1,405 @@
+import type { Model } from './common.ts'
+import type { FieldCondition, FieldConditions } from './conditions.ts'
+import type { ConstraintOptionsMap } from './constraints.ts'
+import {
+  FIELD_SETTINGS,
+  type CoreOptions,
+  type FieldConstraints,
+  type ModelConstraints,
+} from './core.ts'
+import type { Type } from './type-utils/object-natures.ts'
+
+/**
+ * The setting accepted by a constraint: its options or, for constraints
+ * without required options, `true`
+ */
+export type ConstraintSetting<Constraint extends keyof ConstraintOptionsMap> =
+  NonNullable<FieldConstraints[Constraint]>
+
+/**
+ * Builds the constraints of a single field one constraint at a time. Each
+ * method returns a new builder, so builders can be shared and refined.
+ *
+ * Constraints are applied in the order they are added, and adding one again
+ * replaces it in place. Their `dependsOn` and `bail` options work as usual,
+ * but the ordered form, such as applying a constraint twice, cannot be built.
+ * @example
+ * field().required().string().length({ maximum: 80 }).email()
+ */
+export class FieldBuilder<Value = unknown> {
+  /**
+   * The constraints built so far, as consumed by `validateField`
+   */
+  readonly constraints: FieldConstraints<Value>
+
+  constructor(constraints: FieldConstraints<Value> = {}) {
+    this.constraints = constraints
+  }
+
+  /**
+   * Applies any constraint, such as one registered by the app
+   * @param constraint The name of the constraint
+   * @param setting The options of the constraint, or `true`
+   */
+  constraint<Constraint extends keyof ConstraintOptionsMap>(
+    constraint: Constraint,
+    setting: ConstraintSetting<Constraint>,
+  ) {
+    return this.with(constraint, setting)
+  }
+
+  /**
+   * Requires the field to be present
+   */
+  required(setting: ConstraintSetting<'presence'> = true) {
+    return this.with('presence', setting)
+  }
+
+  /**
+   * Requires the field to be absent
+   */
+  absence(setting: ConstraintSetting<'absence'> = true) {
+    return this.with('absence', setting)
+  }
+
+  /**
+   * Requires the field's value to be of a type, as reported by `typeof`
+   * @param type The name of the type
+   * @param options The other options of the `type` constraint
+   */
+  type(type: Type, options: Omit<ConstraintSetting<'type'>, 'type'> = {}) {
+    return this.with('type', { ...options, type })
+  }
+
+  /**
+   * Requires the field's value to be a string
+   */
+  string(options: Omit<ConstraintSetting<'type'>, 'type'> = {}) {
+    return this.type('string', options) as FieldBuilder<string>
+  }
+
+  /**
+   * Requires the field's value to be a number
+   */
+  number(options: Omit<ConstraintSetting<'type'>, 'type'> = {}) {
+    return this.type('number', options) as FieldBuilder<number>
+  }
+
+  /**
+   * Requires the field's value to be a boolean
+   */
+  boolean(options: Omit<ConstraintSetting<'type'>, 'type'> = {}) {
+    return this.type('boolean', options) as FieldBuilder<boolean>
+  }
+
+  /**
+   * Requires the field's value to be an instance of a class
+   */
+  instance(setting: ConstraintSetting<'instance'>) {
+    return this.with('instance', setting)
+  }
+
+  /**
+   * Limits the length of the field's value
+   */
+  length(setting: ConstraintSetting<'length'>) {
+    return this.with('length', setting)
+  }
+
+  /**
+   * Requires the field's value to be a number within bounds
+   */
+  numericality(setting: ConstraintSetting<'numericality'> = true) {
+    return this.with('numericality', setting)
+  }
+
+  /**
+   * Requires the field's value to be a date within bounds
+   */
+  date(setting: ConstraintSetting<'date'> = true) {
+    return this.with('date', setting)
+  }
+
+  /**
+   * Requires the field's value to be an email address
+   */
+  email(setting: ConstraintSetting<'email'> = true) {
+    return this.with('email', setting)
+  }
+
+  /**
+   * Requires the field's value to match a pattern
+   */
+  format(setting: ConstraintSetting<'format'>) {
+    return this.with('format', setting)
+  }
+
+  /**
+   * Requires the field's value to match another field's
+   */
+  confirmation(setting: ConstraintSetting<'confirmation'>) {
+    return this.with('confirmation', setting)
+  }
+
+  /**
+   * Compares the field's value to another field's
+   */
+  compare(setting: ConstraintSetting<'compare'>) {
+    return this.with('compare', setting)
+  }
+
+  /**
+   * Requires the field's value to be one of a list
+   */
+  inclusion(setting: ConstraintSetting<'inclusion'>) {
+    return this.with('inclusion', setting)
+  }
+
+  /**
+   * Requires the field's value not to be one of a list
+   */
+  exclusion(setting: ConstraintSetting<'exclusion'>) {
+    return this.with('exclusion', setting)
+  }
+
+  /**
+   * Requires the field's value to be a UUID
+   */
+  uuid(setting: ConstraintSetting<'uuid'> = true) {
+    return this.with('uuid', setting)
+  }
+
+  /**
+   * Applies a validator function to the field
+   */
+  custom(setting: ConstraintSetting<'custom'>) {
+    return this.with('custom', setting)
+  }
+
+  /**
+   * Names the field in error messages
+   * @param label The name, or a translation key resolving to it
+   */
+  label(label: string) {
+    return this.with('label', label)
+  }
+
+  /**
+   * Only applies the field's constraints when a condition holds, in
+   * addition to any added before
+   * @param condition The condition, on another field of the model
+   */
+  when(condition: FieldCondition) {
+    const { when: existing } = this.constraints
+    const conditions: FieldConditions =
+      existing === undefined ? condition : [...[existing].flat(), condition]
+
+    return this.with('when', conditions)
+  }
+
+  /**
+   * Validates the fields of the field's value against a schema
+   * @param schema The schema of the nested model
+   */
+  nested<N extends Model>(schema: Schema<N>) {
+    return this.with('nested', {
+      constraints: schema.constraints,
+    }) as FieldBuilder<N>
+  }
+
+  /**
+   * Validates every element of the field's value
+   * @param item The builder of the elements' constraints
+   */
+  each<Item>(item: FieldBuilder<Item>) {
+    return this.with('each', item.constraints) as FieldBuilder<Item[]>
+  }
+
+  /**
+   * Skips the field's constraints while its value is `undefined`
+   */
+  optional() {
+    const constraints: Record<string, unknown> = {}
+
+    for (const [constraint, setting] of Object.entries(this.constraints)) {
+      constraints[constraint] =
+        (FIELD_SETTINGS as readonly string[]).includes(constraint) ||
+        constraint === 'nested' ||
+        constraint === 'each'
+          ? setting
+          : {
+              ...(setting === true ? {} : (setting as CoreOptions)),
+              allowUndefined: true,
+            }
+    }
+
+    return new FieldBuilder<Value | undefined>(
+      constraints as FieldConstraints<Value | undefined>,
+    )
+  }
+
+  /**
+   * Creates a builder with one more constraint or setting
+   * @param key The name of the constraint or setting
+   * @param setting Its value
+   * @private
+   */
+  private with(key: string, setting: unknown) {
+    return new FieldBuilder<Value>({
+      ...this.constraints,
+      [key]: setting,
+    } as FieldConstraints<Value>)
+  }
+}
+
+/**
+ * Maps field names to the builders of their constraints
+ */
+export type SchemaShape = Record<string, FieldBuilder<never>>
+
+/**
+ * Maps the fields of a model to the builders of their constraints
+ */
+export type FieldsOf<M extends Model> = { [F in keyof M]: FieldBuilder<M[F]> }
+
+/**
+ * Gathers the builders of a model's fields, the last builder of a field
+ * winning
+ * @param entries The name and builder of each field
+ */
+function fieldsFrom<M extends Model>(
+  entries: Iterable<readonly [string, FieldBuilder]>,
+) {
+  return Object.fromEntries(entries) as FieldsOf<M>
+}
+
+/**
+ * Resolves the model described by a shape
+ */
+type ModelOfShape<Shape extends SchemaShape> = {
+  [F in keyof Shape]: Shape[F] extends FieldBuilder<infer Value> ? Value : never
+}
+
+/**
+ * Resolves the model described by a schema
+ * @example
+ * type Address = ModelOf<typeof addressSchema>
+ */
+export type ModelOf<S extends Schema> = S extends Schema<infer M> ? M : never
+
+/**
+ * Describes a model's constraints as builders of each field's constraints.
+ * Schemas are immutable: composing them creates new schemas.
+ * @example
+ * const contact = schema({
+ *   name: field().required().string(),
+ *   email: field().required().email(),
+ * })
+ * await validate(user, contact.extend({ phone: field().string() }).constraints)
+ */
+export class Schema<M extends Model = Model> {
+  /**
+   * The builder of each field's constraints
+   */
+  readonly fields: FieldsOf<M>
+
+  constructor(fields: FieldsOf<M>) {
+    this.fields = fields
+  }
+
+  /**
+   * The constraints of the model, as consumed by `validate`
+   */
+  get constraints(): ModelConstraints<M> {
+    return Object.fromEntries(
+      Object.entries<FieldBuilder>(this.fields).map(([field, builder]) => [
+        field,
+        builder.constraints,
+      ]),
+    ) as ModelConstraints<M>
+  }
+
+  /**
+   * Adds fields to the schema, replacing the ones it already has
+   * @param shape The builders of the added fields
+   */
+  extend<Shape extends SchemaShape>(shape: Shape) {
+    return this.merge(new Schema<ModelOfShape<Shape>>(shape))
+  }
+
+  /**
+   * Adds the fields of another schema, replacing the ones it already has
+   * @param other The other schema
+   */
+  merge<N extends Model>(other: Schema<N>) {
+    return new Schema<Omit<M, keyof N> & N>(
+      fieldsFrom([
+        ...Object.entries<FieldBuilder>(this.fields),
+        ...Object.entries<FieldBuilder>(other.fields),
+      ]),
+    )
+  }
+
+  /**
+   * Keeps only some fields of the schema
+   * @param fields The names of the fields kept
+   */
+  pick<F extends keyof M & string>(...fields: F[]) {
+    return new Schema<Pick<M, F>>(
+      fieldsFrom(fields.map((field) => [field, this.fields[field]] as const)),
+    )
+  }
+
+  /**
+   * Leaves some fields out of the schema
+   * @param fields The names of the fields left out
+   */
+  omit<F extends keyof M & string>(...fields: F[]) {
+    const omitted: readonly string[] = fields
+
+    return new Schema<Omit<M, F>>(
+      fieldsFrom(
+        Object.entries<FieldBuilder>(this.fields).filter(
+          ([field]) => !omitted.includes(field),
+        ),
+      ),
+    )
+  }
+
+  /**
+   * Makes every field of the schema optional, skipping its constraints
+   * while its value is `undefined`
+   */
+  partial() {
+    return new Schema<Partial<M>>(
+      fieldsFrom(
+        Object.entries<FieldBuilder>(this.fields).map(([field, builder]) => [
+          field,
+          builder.optional(),
+        ]),
+      ),
+    )
+  }
+}
+
+/**
+ * Starts building the constraints of a field
+ * @example
+ * field().required().string().length({ maximum: 80 })
+ */
+export function field<Value = unknown>() {
+  return new FieldBuilder<Value>()
+}
+
+/**
+ * Creates a schema from the builders of each field's constraints
+ * @param shape The builder of each field's constraints
+ * @example
+ * const address = schema({
+ *   street: field().required(),
+ *   zip: field().required().format({ pattern: /^\d{5}$/ }),
+ * })
+ */
+export function schema<Shape extends SchemaShape>(shape: Shape) {
+  return new Schema<ModelOfShape<Shape>>(shape)
+}
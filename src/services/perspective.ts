@@ -0,0 +1,254 @@
+import Service from '@ember/service'
+import { getOwner } from '@ember/owner'
+import { tracked } from '@glimmer/tracking'
+import {
+  associateDestroyableChild,
+  registerDestructor,
+} from '@ember/destroyable'
+import type {
+  Field,
+  I18nHandler,
+  I18nOptions,
+  Model,
+  ValidationError,
+} from '../common.ts'
+import {
+  validate,
+  validateField,
+  validateFieldSync,
+  validateSync,
+  type AnyFieldConstraints,
+  type FieldValidationOptions,
+  type ModelConstraints,
+  type ModelValidationOptions,
+  type SyncFieldValidationOptions,
+  type SyncModelValidationOptions,
+  type ValidationOutput,
+} from '../core.ts'
+import type { CompiledConstraints } from '../compile.ts'
+import { translateError } from '../error.ts'
+import {
+  ValidationState,
+  type ValidationStateOptions,
+} from '../validation-state.ts'
+
+/**
+ * Holds the app-level validation settings, applied to every validation run
+ * started through it.
+ *
+ * Error messages are translated by the app's `intl` service, if any, unless
+ * another handler is configured:
+ * @example
+ * export default class ApplicationRoute extends Route {
+ *   @service declare perspective: PerspectiveService
+ *
+ *   beforeModel() {
+ *     this.perspective.i18n = { prefix: 'errors' }
+ *   }
+ * }
+ */
+export default class PerspectiveService extends Service {
+  /**
+   * How error messages are translated by default. Run options and
+   * constraint options take precedence over it.
+   */
+  @tracked i18n: I18nOptions = {}
+
+  /**
+   * Functions called whenever the locale changes
+   * @private
+   */
+  private readonly listeners = new Set<() => void>()
+
+  /**
+   * Stops listening to locale changes of the handler
+   * @private
+   */
+  private unsubscribe?: () => void
+
+  /**
+   * The internationalisation engine used to translate error messages: the
+   * configured one or else the app's `intl` service, if any
+   */
+  get handler(): I18nHandler | undefined {
+    return (
+      this.i18n.handler ??
+      (getOwner(this)?.lookup('service:intl') as I18nHandler | undefined)
+    )
+  }
+
+  /**
+   * Validates a model with the app-level settings
+   * @see validate
+   */
+  validate<
+    M extends Model,
+    Output extends ValidationOutput = 'messages',
+    BySeverity extends boolean = false,
+  >(
+    model: M,
+    constraints: ModelConstraints<M> | CompiledConstraints<M>,
+    options: ModelValidationOptions<Output, BySeverity> = {},
+  ) {
+    return validate(model, constraints, this.withDefaults(options))
+  }
+
+  /**
+   * Validates a model's field with the app-level settings
+   * @see validateField
+   */
+  validateField<
+    M extends Model,
+    Output extends ValidationOutput = 'messages',
+    BySeverity extends boolean = false,
+  >(
+    model: M,
+    field: keyof M & Field,
+    constraints: AnyFieldConstraints,
+    options: FieldValidationOptions<Output, BySeverity> = {},
+  ) {
+    return validateField(model, field, constraints, this.withDefaults(options))
+  }
+
+  /**
+   * Validates a model synchronously with the app-level settings
+   * @see validateSync
+   */
+  validateSync<
+    M extends Model,
+    Output extends ValidationOutput = 'messages',
+    BySeverity extends boolean = false,
+  >(
+    model: M,
+    constraints: ModelConstraints<M> | CompiledConstraints<M>,
+    options: SyncModelValidationOptions<Output, BySeverity> = {},
+  ) {
+    return validateSync(model, constraints, this.withDefaults(options))
+  }
+
+  /**
+   * Validates a model's field synchronously with the app-level settings
+   * @see validateFieldSync
+   */
+  validateFieldSync<
+    M extends Model,
+    Output extends ValidationOutput = 'messages',
+    BySeverity extends boolean = false,
+  >(
+    model: M,
+    field: keyof M & Field,
+    constraints: AnyFieldConstraints,
+    options: SyncFieldValidationOptions<Output, BySeverity> = {},
+  ) {
+    return validateFieldSync(
+      model,
+      field,
+      constraints,
+      this.withDefaults(options),
+    )
+  }
+
+  /**
+   * Creates a `ValidationState` with the app-level settings, whose messages
+   * are translated again whenever the locale changes. It stops listening
+   * once destroyed, either through `destroy` from `@ember/destroyable` or
+   * along with the service.
+   * @see createValidator
+   */
+  createValidator<M extends Model>(
+    model: M,
+    constraints: ModelConstraints<M> | CompiledConstraints<M>,
+    options: ValidationStateOptions = {},
+  ) {
+    const state = new ValidationState(
+      model,
+      constraints,
+      this.withDefaults(options),
+    )
+
+    associateDestroyableChild(this, state)
+    registerDestructor(
+      state,
+      this.onLocaleChange(() => state.translate()),
+    )
+
+    return state
+  }
+
+  /**
+   * Translates the messages of a validation result again, such as after
+   * the locale changes. Custom messages are kept as is.
+   * @param errors The result of `validate` with `output: 'errors'`
+   * @returns A copy of the result with the translated messages
+   */
+  translate<Errors extends Partial<Record<string, ValidationError[]>>>(
+    errors: Errors,
+  ) {
+    const { handler } = this
+
+    return Object.fromEntries(
+      Object.entries(errors).map(([path, pathErrors]) => [
+        path,
+        pathErrors?.map((error) => translateError(error, handler)),
+      ]),
+    ) as Errors
+  }
+
+  /**
+   * Registers a function to be called whenever the locale changes, as
+   * reported by the handler's `onLocaleChanged` or by `localeChanged`
+   * @param callback The function to be called
+   * @returns A function that unregisters the callback
+   */
+  onLocaleChange(callback: () => void) {
+    this.listeners.add(callback)
+    this.unsubscribe ??= this.handler?.onLocaleChanged?.(
+      () => this.localeChanged(),
+      this,
+    )
+
+    return () => {
+      this.listeners.delete(callback)
+    }
+  }
+
+  /**
+   * Notifies every registered function that the locale changed. Only needed
+   * for handlers that do not implement `onLocaleChanged`.
+   */
+  localeChanged() {
+    for (const callback of [...this.listeners]) {
+      callback()
+    }
+  }
+
+  willDestroy() {
+    super.willDestroy()
+    this.unsubscribe?.()
+    this.listeners.clear()
+  }
+
+  /**
+   * Completes the options of a validation run with the app-level settings
+   * @param options The options of the run
+   * @private
+   */
+  private withDefaults<Options extends { i18n?: I18nOptions }>(
+    options: Options,
+  ): Options {
+    return {
+      ...options,
+      i18n: {
+        handler: this.handler,
+        prefix: this.i18n.prefix,
+        ...options.i18n,
+      },
+    }
+  }
+}
+
+declare module '@ember/service' {
+  interface Registry {
+    perspective: PerspectiveService
+  }
+}
@@ -2,9 +2,14 @@
 // Add all your components, helpers and modifiers to the template registry here, so apps don't have to do this.
 // See https://typed-ember.gitbook.io/glint/environments/ember/authoring-addons
 
-// import type MyComponent from './components/my-component';
+import type ValidatedField from './components/validated-field.gts'
+import type ValidationErrors from './components/validation-errors.gts'
+import type errorsFor from './helpers/errors-for.ts'
 
-// Uncomment this once entries have been added! 👇
-// export default interface Registry {
-//   MyComponent: typeof MyComponent
-// }
+export default interface Registry {
+  ValidatedField: typeof ValidatedField
+  'validated-field': typeof ValidatedField
+  ValidationErrors: typeof ValidationErrors
+  'validation-errors': typeof ValidationErrors
+  'errors-for': typeof errorsFor
+}
@@ -0,0 +1,55 @@
+/**
+ * English messages for every key emitted by the built-in constraints
+ */
+export default {
+  validation: {
+    presence: 'Must be present',
+    absence: 'Must not be present',
+    type: 'Must be a {type}',
+    instance: 'Must be an instance of {constructors}',
+    length: {
+      interval: 'Length must be between {minimum} and {maximum}',
+      minimum: 'Length must be greater than {minimum}',
+      maximum: 'Length must be less than {maximum}',
+    },
+    numericality: {
+      notANumber: 'Must be a number',
+      onlyInteger: 'Must be an integer',
+      greaterThan: 'Must be greater than {greaterThan}',
+      greaterThanOrEqualTo:
+        'Must be greater than or equal to {greaterThanOrEqualTo}',
+      lessThan: 'Must be less than {lessThan}',
+      lessThanOrEqualTo: 'Must be less than or equal to {lessThanOrEqualTo}',
+      equalTo: 'Must be equal to {equalTo}',
+      otherThan: 'Must be other than {otherThan}',
+      odd: 'Must be odd',
+      even: 'Must be even',
+      positive: 'Must be positive',
+      negative: 'Must be negative',
+    },
+    date: {
+      invalid: 'Must be a valid date',
+      before: 'Must be before {before, date, medium}',
+      after: 'Must be after {after, date, medium}',
+      onOrBefore: 'Must be on or before {onOrBefore, date, medium}',
+      onOrAfter: 'Must be on or after {onOrAfter, date, medium}',
+    },
+    email: 'Must be a valid email address',
+    format: 'Must have a valid format',
+    confirmation: 'Must match {otherLabel}',
+    compare: {
+      eq: 'Must be equal to {otherLabel}',
+      neq: 'Must differ from {otherLabel}',
+      lt: 'Must be less than {otherLabel}',
+      lte: 'Must be less than or equal to {otherLabel}',
+      gt: 'Must be greater than {otherLabel}',
+      gte: 'Must be greater than or equal to {otherLabel}',
+    },
+    inclusion: 'Must be an allowed value',
+    exclusion: 'Must not be a disallowed value',
+    uuid: 'Must contain a valid UUID',
+    custom: 'Is invalid',
+    timeout: 'Took too long to validate',
+    invalidValue: 'Has an invalid value',
+  },
+}
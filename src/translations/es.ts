@@ -0,0 +1,56 @@
+import type en from './en.ts'
+
+/**
+ * Spanish messages for every key emitted by the built-in constraints
+ */
+export default {
+  validation: {
+    presence: 'Debe estar presente',
+    absence: 'No debe estar presente',
+    type: 'Debe ser de tipo {type}',
+    instance: 'Debe ser una instancia de {constructors}',
+    length: {
+      interval: 'La longitud debe estar entre {minimum} y {maximum}',
+      minimum: 'La longitud debe ser mayor que {minimum}',
+      maximum: 'La longitud debe ser menor que {maximum}',
+    },
+    numericality: {
+      notANumber: 'Debe ser un número',
+      onlyInteger: 'Debe ser un número entero',
+      greaterThan: 'Debe ser mayor que {greaterThan}',
+      greaterThanOrEqualTo: 'Debe ser mayor o igual a {greaterThanOrEqualTo}',
+      lessThan: 'Debe ser menor que {lessThan}',
+      lessThanOrEqualTo: 'Debe ser menor o igual a {lessThanOrEqualTo}',
+      equalTo: 'Debe ser igual a {equalTo}',
+      otherThan: 'Debe ser distinto de {otherThan}',
+      odd: 'Debe ser impar',
+      even: 'Debe ser par',
+      positive: 'Debe ser positivo',
+      negative: 'Debe ser negativo',
+    },
+    date: {
+      invalid: 'Debe ser una fecha válida',
+      before: 'Debe ser anterior a {before, date, medium}',
+      after: 'Debe ser posterior a {after, date, medium}',
+      onOrBefore: 'Debe ser igual o anterior a {onOrBefore, date, medium}',
+      onOrAfter: 'Debe ser igual o posterior a {onOrAfter, date, medium}',
+    },
+    email: 'Debe ser una dirección de correo electrónico válida',
+    format: 'Debe tener un formato válido',
+    confirmation: 'Debe coincidir con {otherLabel}',
+    compare: {
+      eq: 'Debe ser igual a {otherLabel}',
+      neq: 'Debe ser distinto de {otherLabel}',
+      lt: 'Debe ser menor que {otherLabel}',
+      lte: 'Debe ser menor o igual a {otherLabel}',
+      gt: 'Debe ser mayor que {otherLabel}',
+      gte: 'Debe ser mayor o igual a {otherLabel}',
+    },
+    inclusion: 'Debe ser un valor permitido',
+    exclusion: 'No debe ser un valor prohibido',
+    uuid: 'Debe contener un UUID válido',
+    custom: 'No es válido',
+    timeout: 'Tardó demasiado en validarse',
+    invalidValue: 'Tiene un valor no válido',
+  },
+} satisfies typeof en
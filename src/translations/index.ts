@@ -0,0 +1,23 @@
+import en from './en.ts'
+import ptBR from './pt-br.ts'
+import es from './es.ts'
+
+/**
+ * Maps translation keys, nested by their dot-separated segments, to
+ * messages in ICU format, as expected by `ember-intl`
+ */
+export interface TranslationBundle {
+  [segment: string]: string | TranslationBundle
+}
+
+/**
+ * Contains the default messages of the built-in constraints, keyed by
+ * locale. Add them to `ember-intl` to translate validation errors.
+ * @example
+ * intl.addTranslations('pt-br', translations['pt-BR'])
+ */
+export const translations: Record<'en' | 'pt-BR' | 'es', TranslationBundle> = {
+  en,
+  'pt-BR': ptBR,
+  es,
+}
@@ -0,0 +1,57 @@
+import type en from './en.ts'
+
+/**
+ * Brazilian Portuguese messages for every key emitted by the built-in
+ * constraints
+ */
+export default {
+  validation: {
+    presence: 'Deve estar presente',
+    absence: 'Não deve estar presente',
+    type: 'Deve ser do tipo {type}',
+    instance: 'Deve ser uma instância de {constructors}',
+    length: {
+      interval: 'O tamanho deve estar entre {minimum} e {maximum}',
+      minimum: 'O tamanho deve ser maior que {minimum}',
+      maximum: 'O tamanho deve ser menor que {maximum}',
+    },
+    numericality: {
+      notANumber: 'Deve ser um número',
+      onlyInteger: 'Deve ser um número inteiro',
+      greaterThan: 'Deve ser maior que {greaterThan}',
+      greaterThanOrEqualTo: 'Deve ser maior ou igual a {greaterThanOrEqualTo}',
+      lessThan: 'Deve ser menor que {lessThan}',
+      lessThanOrEqualTo: 'Deve ser menor ou igual a {lessThanOrEqualTo}',
+      equalTo: 'Deve ser igual a {equalTo}',
+      otherThan: 'Deve ser diferente de {otherThan}',
+      odd: 'Deve ser ímpar',
+      even: 'Deve ser par',
+      positive: 'Deve ser positivo',
+      negative: 'Deve ser negativo',
+    },
+    date: {
+      invalid: 'Deve ser uma data válida',
+      before: 'Deve ser anterior a {before, date, medium}',
+      after: 'Deve ser posterior a {after, date, medium}',
+      onOrBefore: 'Deve ser em ou antes de {onOrBefore, date, medium}',
+      onOrAfter: 'Deve ser em ou depois de {onOrAfter, date, medium}',
+    },
+    email: 'Deve ser um endereço de e-mail válido',
+    format: 'Deve ter um formato válido',
+    confirmation: 'Deve corresponder a {otherLabel}',
+    compare: {
+      eq: 'Deve ser igual a {otherLabel}',
+      neq: 'Deve ser diferente de {otherLabel}',
+      lt: 'Deve ser menor que {otherLabel}',
+      lte: 'Deve ser menor ou igual a {otherLabel}',
+      gt: 'Deve ser maior que {otherLabel}',
+      gte: 'Deve ser maior ou igual a {otherLabel}',
+    },
+    inclusion: 'Deve ser um valor permitido',
+    exclusion: 'Não deve ser um valor proibido',
+    uuid: 'Deve conter um UUID válido',
+    custom: 'É inválido',
+    timeout: 'Demorou demais para validar',
+    invalidValue: 'Possui um valor inválido',
+  },
+} satisfies typeof en
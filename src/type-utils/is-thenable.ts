@@ -0,0 +1,12 @@
+/**
+ * Checks whether a value is a promise or promise-like object
+ * @param value
+ */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    (typeof value === 'object' || typeof value === 'function') &&
+    value !== null &&
+    'then' in value &&
+    typeof value.then === 'function'
+  )
+}
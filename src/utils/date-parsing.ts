@@ -0,0 +1,25 @@
+/**
+ * Converts a date-like value into a `Date`.
+ * `Date` instances are returned as is, while strings (e.g. in ISO 8601
+ * format) and numbers (epoch milliseconds) are parsed.
+ * @param value The value to be converted
+ * @return The corresponding date, which may be invalid if the value could
+ * not be parsed, or `undefined` if the value is not date-like at all
+ */
+export function parseDate(value: unknown) {
+  if (value instanceof Date) {
+    return value
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    return new Date(value)
+  }
+}
+
+/**
+ * Checks whether a date holds an actual point in time
+ * @param date The date to be checked
+ */
+export function isDateValid(date: Date) {
+  return !Number.isNaN(date.getTime())
+}
@@ -0,0 +1,168 @@
+/**
+ * Defines how independent constraints and fields are validated:
+ *   1. `sequential`: one after another;
+ *   2. `parallel`: all at the same time;
+ *   3. `{ concurrency: n }`: at most `n` constraints at the same time.
+ */
+export type ExecutionMode = 'sequential' | 'parallel' | { concurrency: number }
+
+/**
+ * Runs the tasks of a validation according to an execution mode
+ */
+export class Executor {
+  /**
+   * Whether tasks run one after another
+   */
+  readonly sequential: boolean
+
+  /**
+   * The maximum number of scheduled tasks running at the same time
+   * @private
+   */
+  private readonly concurrency: number
+
+  /**
+   * The number of scheduled tasks currently running
+   * @private
+   */
+  private running = 0
+
+  /**
+   * Resumes scheduled tasks waiting for a free slot, in scheduling order
+   * @private
+   */
+  private readonly queue: (() => void)[] = []
+
+  /**
+   * Constructs a new executor
+   * @param mode The execution mode
+   */
+  constructor(mode: ExecutionMode) {
+    this.sequential = mode === 'sequential'
+
+    if (typeof mode === 'object') {
+      if (!Number.isInteger(mode.concurrency) || mode.concurrency < 1) {
+        throw new RangeError('Concurrency must be a positive integer')
+      }
+      this.concurrency = mode.concurrency
+    } else {
+      this.concurrency = Infinity
+    }
+  }
+
+  /**
+   * Runs a task as soon as the concurrency limit allows
+   * @param task The task to be run
+   * @returns The task's result
+   */
+  async schedule<T>(task: () => Promise<T>) {
+    if (this.running < this.concurrency) {
+      this.running++
+    } else {
+      await new Promise<void>((resolve) => this.queue.push(resolve))
+    }
+
+    try {
+      return await task()
+    } finally {
+      const next = this.queue.shift()
+      if (next) {
+        next()
+      } else {
+        this.running--
+      }
+    }
+  }
+
+  /**
+   * Runs independent tasks and collects their results in task order,
+   * up to and including the first result that halts the run. Tasks
+   * following a halting one are not started when running sequentially.
+   * Otherwise, each task gets its own signal, aborted along with the run's
+   * or once a task before it halts, and tasks following a halting one are
+   * ignored, whether they succeed or not.
+   * @param tasks The tasks to be run, given the signal they should stop on
+   * @param halts Checks whether a result halts the run
+   * @param signal Cancels the run
+   * @returns The results, in task order
+   */
+  async runAll<T>(
+    tasks: ((signal?: AbortSignal) => Promise<T>)[],
+    halts: (result: T) => boolean = () => false,
+    signal?: AbortSignal,
+  ) {
+    const results: T[] = []
+
+    if (this.sequential) {
+      for (const task of tasks) {
+        const result = await task(signal)
+        results.push(result)
+        if (halts(result)) break
+      }
+
+      return results
+    }
+
+    const controllers = tasks.map(() => new AbortController())
+    const abortAll = () => {
+      for (const controller of controllers) controller.abort(signal?.reason)
+    }
+
+    if (signal?.aborted) abortAll()
+    signal?.addEventListener('abort', abortAll)
+
+    let outcomes
+    try {
+      outcomes = await Promise.allSettled(
+        tasks.map(async (task, index) => {
+          const result = await task(controllers[index]!.signal)
+          if (halts(result)) {
+            for (const controller of controllers.slice(index + 1)) {
+              controller.abort()
+            }
+          }
+          return result
+        }),
+      )
+    } finally {
+      signal?.removeEventListener('abort', abortAll)
+    }
+
+    for (const outcome of outcomes) {
+      if (outcome.status === 'rejected') throw outcome.reason
+      results.push(outcome.value)
+      if (halts(outcome.value)) break
+    }
+
+    return results
+  }
+}
+
+/**
+ * Stands for the result of a task that did not settle in time
+ */
+export const TIMED_OUT = Symbol('timed out')
+
+/**
+ * Waits for a task to settle, giving up after a timeout
+ * @param task The pending task
+ * @param timeout How long to wait for, in milliseconds. Waits indefinitely
+ * if omitted
+ * @returns The task's result, or `TIMED_OUT` if it did not settle in time
+ */
+export async function settleWithin<T>(task: Promise<T>, timeout?: number) {
+  if (timeout === undefined) {
+    return task
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const expiry = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), timeout)
+  })
+
+  try {
+    return await Promise.race([task, expiry])
+  } finally {
+    clearTimeout(timer)
+  }
+}
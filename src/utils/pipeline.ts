@@ -0,0 +1,225 @@
+import { AsynchronousConstraintError } from '../error.ts'
+import { isThenable } from '../type-utils/is-thenable.ts'
+import { settleWithin, type Executor } from './execution.ts'
+
+/**
+ * Describes a step of a validation that may have to wait:
+ *   1. `settle`: a value returned by a condition or validator, which may be
+ *      a promise;
+ *   2. `wait`: the outcomes of other tasks;
+ *   3. `schedule`: a task to run as soon as the concurrency limit allows;
+ *   4. `all`: independent tasks, collected up to the first that halts.
+ */
+type Effect =
+  | { type: 'settle'; value: unknown; timeout?: number; source: string }
+  | {
+      type: 'wait'
+      outcomes: readonly Pick<Outcome<unknown>, 'promise' | 'value'>[]
+    }
+  | { type: 'schedule'; task: () => Pipeline<unknown> }
+  | {
+      type: 'all'
+      tasks: readonly ((signal?: AbortSignal) => Pipeline<unknown>)[]
+      halts: (result: unknown) => boolean
+      signal?: AbortSignal
+    }
+
+/**
+ * Describes a validation as the steps it takes, so the same validation can
+ * be run either asynchronously, by `run`, or synchronously, by `runSync`
+ */
+export type Pipeline<T> = Generator<Effect, T, unknown>
+
+/**
+ * Holds the outcome of a task other tasks may wait for
+ */
+export class Outcome<T> {
+  /**
+   * Settles with the outcome
+   */
+  readonly promise: Promise<T>
+
+  /**
+   * The outcome, once settled
+   * @private
+   */
+  private settled?: { value: T }
+
+  /**
+   * Resolves `promise`
+   * @private
+   */
+  private resolve!: (value: T) => void
+
+  constructor() {
+    this.promise = new Promise((resolve) => (this.resolve = resolve))
+  }
+
+  /**
+   * The outcome, if settled
+   */
+  get value() {
+    return this.settled?.value
+  }
+
+  /**
+   * Settles the outcome
+   * @param value The outcome
+   */
+  settle(value: T) {
+    this.settled = { value }
+    this.resolve(value)
+  }
+}
+
+/**
+ * Waits for a value returned by a condition or validator
+ * @param value The value, possibly a promise
+ * @param source What returned the value, such as `The validator of presence
+ * on name`
+ * @param timeout How long to wait for, in milliseconds
+ * @returns The settled value, or `TIMED_OUT` if it did not settle in time
+ */
+export function* settle(
+  value: unknown,
+  source: string,
+  timeout?: number,
+): Pipeline<unknown> {
+  return yield { type: 'settle', value, timeout, source }
+}
+
+/**
+ * Waits for the outcomes of other tasks
+ * @param outcomes The outcomes
+ */
+export function* waitFor<T>(outcomes: readonly Outcome<T>[]): Pipeline<T[]> {
+  return (yield { type: 'wait', outcomes }) as T[]
+}
+
+/**
+ * Runs a task as soon as the concurrency limit allows
+ * @param task The task
+ * @returns The task's result
+ */
+export function* schedule<T>(task: () => Pipeline<T>): Pipeline<T> {
+  return (yield { type: 'schedule', task }) as T
+}
+
+/**
+ * Runs independent tasks, collecting their results in task order
+ * @param tasks The tasks, given the signal they should stop on
+ * @param halts Checks whether a result halts the run
+ * @param signal Cancels the run
+ * @see Executor.runAll
+ */
+export function* all<T>(
+  tasks: readonly ((signal?: AbortSignal) => Pipeline<T>)[],
+  halts: (result: T) => boolean,
+  signal?: AbortSignal,
+): Pipeline<T[]> {
+  return (yield {
+    type: 'all',
+    tasks,
+    halts: halts as (result: unknown) => boolean,
+    signal,
+  }) as T[]
+}
+
+/**
+ * Runs a pipeline, waiting for promises and running tasks as the executor
+ * allows
+ * @param pipeline The pipeline
+ * @param executor Runs the pipeline's tasks
+ * @returns The pipeline's result
+ */
+export async function run<T>(pipeline: Pipeline<T>, executor: Executor) {
+  let step = pipeline.next()
+
+  while (!step.done) {
+    const effect = step.value
+    let input: unknown
+    try {
+      switch (effect.type) {
+        case 'settle':
+          input = await settleWithin(
+            Promise.resolve(effect.value),
+            effect.timeout,
+          )
+          break
+        case 'wait':
+          input = await Promise.all(
+            effect.outcomes.map(({ promise }) => promise),
+          )
+          break
+        case 'schedule':
+          input = await executor.schedule(() => run(effect.task(), executor))
+          break
+        case 'all':
+          input = await executor.runAll(
+            effect.tasks.map((task) => (signal) => run(task(signal), executor)),
+            effect.halts,
+            effect.signal,
+          )
+          break
+      }
+    } catch (error) {
+      step = pipeline.throw(error)
+      continue
+    }
+    step = pipeline.next(input)
+  }
+
+  return step.value
+}
+
+/**
+ * Runs a pipeline without waiting for promises, one task after another
+ * @param pipeline The pipeline
+ * @returns The pipeline's result
+ * @throws AsynchronousConstraintError if a condition or validator returns a
+ * promise
+ */
+export function runSync<T>(pipeline: Pipeline<T>) {
+  let step = pipeline.next()
+
+  while (!step.done) {
+    const effect = step.value
+    let input: unknown
+    try {
+      switch (effect.type) {
+        case 'settle':
+          if (isThenable(effect.value)) {
+            // The promise is dropped, so its rejection must not go unhandled
+            effect.value.then(undefined, () => {})
+            const errorMessage = `${effect.source} returned a promise; use validate instead`
+            throw new AsynchronousConstraintError(errorMessage)
+          }
+          input = effect.value
+          break
+        case 'wait':
+          // Tasks run one after another, so the outcomes have settled
+          input = effect.outcomes.map(({ value }) => value)
+          break
+        case 'schedule':
+          input = runSync(effect.task())
+          break
+        case 'all': {
+          const results: unknown[] = []
+          for (const task of effect.tasks) {
+            const result = runSync(task(effect.signal))
+            results.push(result)
+            if (effect.halts(result)) break
+          }
+          input = results
+          break
+        }
+      }
+    } catch (error) {
+      step = pipeline.throw(error)
+      continue
+    }
+    step = pipeline.next(input)
+  }
+
+  return step.value
+}
@@ -0,0 +1,458 @@
+import { tracked } from '@glimmer/tracking'
+import type {
+  Field,
+  I18nHandler,
+  Model,
+  Severity,
+  ValidationError,
+} from './common.ts'
+import {
+  labelsOf,
+  validate,
+  type FieldPath,
+  type ModelConstraints,
+  type ModelValidationOptions,
+} from './core.ts'
+import { CompiledConstraints } from './compile.ts'
+import { translateError } from './error.ts'
+
+/**
+ * Holds the validation state of a single field path
+ */
+class FieldState {
+  @tracked failures: ValidationError[] = []
+  @tracked isValidating = false
+  @tracked isDirty = false
+
+  /**
+   * The error messages of the field
+   */
+  get errors() {
+    return this.messagesFor('error')
+  }
+
+  /**
+   * Fetches the messages of the field's failures of a severity
+   * @param severity The severity of the failures
+   */
+  messagesFor(severity: Severity) {
+    return this.failures
+      .filter((failure) => (failure.severity ?? 'error') === severity)
+      .map(({ message }) => message)
+  }
+
+  /**
+   * Identifies the latest validation run of the field. Results of older
+   * runs are discarded.
+   */
+  run = 0
+
+  /**
+   * Cancels the latest validation run of the field
+   */
+  controller?: AbortController
+
+  /**
+   * The pending debounced validation of the field, if any
+   */
+  timer?: ReturnType<typeof setTimeout>
+
+  /**
+   * Settles the promise returned by the `set` call that scheduled the
+   * pending debounced validation
+   */
+  settle?: () => void
+}
+
+/**
+ * Options accepted by `ValidationState`
+ */
+export interface ValidationStateOptions
+  extends Pick<
+    ModelValidationOptions,
+    'haltBy' | 'registry' | 'execution' | 'onInvalidValue' | 'i18n' | 'context'
+  > {
+  /**
+   * How long, in milliseconds, to wait after a field is `set` before
+   * validating it. Further changes within this period restart the wait.
+   * Defaults to `0`, validating immediately.
+   */
+  debounce?: number
+}
+
+/**
+ * Keeps the validation state of a model as tracked properties, so templates
+ * and getters update as fields are changed and revalidated.
+ *
+ * Fields are validated one at a time, or all at once by `validate`. When a
+ * field is revalidated before a previous run finishes, the previous run's
+ * results for it are discarded, and the run is aborted once no field waits
+ * for it, so out-of-order results never overwrite newer ones.
+ * @example
+ * const state = new ValidationState(user, {
+ *   email: { presence: true, email: true },
+ * })
+ * await state.set('email', 'jane@example.com')
+ * state.errorsFor('email') // []
+ */
+export class ValidationState<M extends Model> {
+  /**
+   * The model being validated
+   */
+  readonly model: M
+
+  /**
+   * The constraints applied to the model
+   */
+  readonly constraints: ModelConstraints<M>
+
+  /**
+   * The options the state was created with
+   * @private
+   */
+  private readonly options: ValidationStateOptions
+
+  /**
+   * Stores the state of each field path validated so far
+   * @private
+   */
+  @tracked private states: Record<string, FieldState> = {}
+
+  constructor(
+    model: M,
+    constraints: ModelConstraints<M> | CompiledConstraints<M>,
+    options: ValidationStateOptions = {},
+  ) {
+    this.model = model
+
+    if (constraints instanceof CompiledConstraints) {
+      this.constraints = constraints.constraints
+      this.options = { ...options, registry: constraints.registry }
+    } else {
+      this.constraints = constraints
+      this.options = options
+    }
+  }
+
+  /**
+   * Whether no field currently has errors. Warnings and info do not
+   * count.
+   */
+  get isValid() {
+    return Object.values(this.states).every(({ errors }) => !errors.length)
+  }
+
+  /**
+   * Whether any field is being validated
+   */
+  get isValidating() {
+    return Object.values(this.states).some(({ isValidating }) => isValidating)
+  }
+
+  /**
+   * Whether any field has been `set`
+   */
+  get isDirty() {
+    return Object.values(this.states).some(({ isDirty }) => isDirty)
+  }
+
+  /**
+   * The error messages of every field path with errors
+   */
+  get errors() {
+    return this.messagesWith('error')
+  }
+
+  /**
+   * The warning messages of every field path with warnings
+   */
+  get warnings() {
+    return this.messagesWith('warning')
+  }
+
+  /**
+   * Fetches the current error messages of a field
+   * @param field The name (or path) of the field
+   */
+  errorsFor = (field: FieldPath<M> & string) => {
+    return this.states[field]?.errors ?? []
+  }
+
+  /**
+   * Fetches the current warning messages of a field
+   * @param field The name (or path) of the field
+   */
+  warningsFor = (field: FieldPath<M> & string) => {
+    return this.messagesFor(field, 'warning')
+  }
+
+  /**
+   * Fetches the current messages of a field's failures of a severity
+   * @param field The name (or path) of the field
+   * @param severity The severity of the failures
+   */
+  messagesFor = (field: FieldPath<M> & string, severity: Severity) => {
+    return this.states[field]?.messagesFor(severity) ?? []
+  }
+
+  /**
+   * Checks whether a field has been `set`
+   * @param field The name of the field
+   */
+  isFieldDirty = (field: keyof M & string) => {
+    return this.states[field]?.isDirty ?? false
+  }
+
+  /**
+   * Changes the value of a field, flags it as dirty and revalidates it,
+   * after the configured debounce period
+   * @param field The name of the field
+   * @param value The new value of the field
+   * @returns A promise that settles once the field is revalidated, or once
+   * the revalidation is superseded by a newer change
+   */
+  set<F extends keyof M & string>(field: F, value: M[F]) {
+    this.model[field] = value
+
+    const state = this.stateFor(field)
+    state.isDirty = true
+
+    const { debounce = 0 } = this.options
+    if (debounce <= 0) {
+      return this.validateField(field).then(() => {})
+    }
+
+    this.cancelPending(state)
+    return new Promise<void>((resolve) => {
+      state.settle = resolve
+      state.timer = setTimeout(() => {
+        state.timer = undefined
+        state.settle = undefined
+        void this.validateField(field).then(() => resolve())
+      }, debounce)
+    })
+  }
+
+  /**
+   * Validates a field immediately, including the fields nested within it
+   * @param field The name of the field
+   * @returns The field's error messages, or the messages produced by a newer
+   * run if this one was superseded
+   */
+  async validateField(field: keyof M & string) {
+    const constraints: ModelConstraints<M> = {}
+    constraints[field] = this.constraints[field]
+
+    await this.validateFields([field], constraints)
+
+    return this.errorsFor(field as FieldPath<M> & string)
+  }
+
+  /**
+   * Validates every constrained field in a single run, so `haltBy` applies
+   * to the model as a whole. Fields skipped because validation halted are
+   * left without failures.
+   * @returns Whether the model is valid
+   */
+  async validate() {
+    await this.validateFields(
+      Object.keys(this.constraints) as (keyof M & string)[],
+      this.constraints,
+    )
+
+    return this.isValid
+  }
+
+  /**
+   * Clears all errors and dirty flags, discarding pending validations
+   */
+  reset() {
+    for (const state of Object.values(this.states)) {
+      this.cancelPending(state)
+      this.supersede(state)
+      state.failures = []
+      state.isValidating = false
+      state.isDirty = false
+    }
+  }
+
+  /**
+   * Translates the current error messages again, such as after the locale
+   * changes. Custom messages are kept as is.
+   * @param handler The internationalisation engine. Defaults to the one the
+   * state was created with
+   */
+  translate(handler: I18nHandler | undefined = this.options.i18n?.handler) {
+    for (const state of Object.values(this.states)) {
+      state.failures = state.failures.map((error) =>
+        translateError(error, handler),
+      )
+    }
+  }
+
+  /**
+   * Collects the messages of every field path with failures of a severity
+   * @param severity The severity of the failures
+   * @private
+   */
+  private messagesWith(severity: Severity) {
+    const messages: Record<string, string[]> = {}
+
+    for (const [path, state] of Object.entries(this.states)) {
+      const pathMessages = state.messagesFor(severity)
+      if (pathMessages.length) {
+        messages[path] = pathMessages
+      }
+    }
+
+    return messages as Partial<Record<FieldPath<M>, string[]>>
+  }
+
+  /**
+   * Fetches the state of a field path, creating it if needed
+   * @param path The path of the field
+   * @private
+   */
+  private stateFor(path: string) {
+    let state = this.states[path]
+    if (!state) {
+      state = new FieldState()
+      this.states = { ...this.states, [path]: state }
+    }
+    return state
+  }
+
+  /**
+   * Cancels the pending debounced validation of a field, if any
+   * @param state The state of the field
+   * @private
+   */
+  private cancelPending(state: FieldState) {
+    if (state.timer !== undefined) {
+      clearTimeout(state.timer)
+      state.timer = undefined
+    }
+    state.settle?.()
+    state.settle = undefined
+  }
+
+  /**
+   * Validates fields in a single run, superseding their previous runs, and
+   * stores the results of the fields not superseded in the meantime
+   * @param fields The names of the fields
+   * @param constraints The constraints of the fields
+   * @private
+   */
+  private async validateFields(
+    fields: (keyof M & string)[],
+    constraints: ModelConstraints<M>,
+  ) {
+    const controller = new AbortController()
+    const runs = fields.map((field) => {
+      const state = this.stateFor(field)
+      this.cancelPending(state)
+      this.supersede(state)
+      state.controller = controller
+      state.isValidating = true
+      return [field, state, state.run] as const
+    })
+
+    try {
+      const result = await validate(this.model, constraints, {
+        haltBy: this.options.haltBy,
+        registry: this.options.registry,
+        execution: this.options.execution,
+        onInvalidValue: this.options.onInvalidValue,
+        i18n: this.options.i18n,
+        context: this.options.context,
+        labels: labelsOf(this.constraints),
+        output: 'errors',
+        bySeverity: true,
+        signal: controller.signal,
+      })
+
+      for (const [field, state, run] of runs) {
+        if (run === state.run) {
+          this.store(field, Object.values(result))
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) throw error
+    } finally {
+      for (const [, state, run] of runs) {
+        if (run === state.run) {
+          state.isValidating = false
+        }
+      }
+    }
+  }
+
+  /**
+   * Discards the results of a field's latest run, aborting the run once
+   * none of the fields it validates is waiting for it
+   * @param state The state of the field
+   * @private
+   */
+  private supersede(state: FieldState) {
+    const { controller } = state
+    state.controller = undefined
+    state.run++
+
+    const states = Object.values(this.states)
+    if (!states.some((other) => other.controller === controller)) {
+      controller?.abort()
+    }
+  }
+
+  /**
+   * Stores the result of validating a field, clearing the failures of its
+   * paths that are no longer failing
+   * @param field The name of the validated field
+   * @param buckets The failures of each severity, keyed by path. Paths
+   * outside the field are ignored.
+   * @private
+   */
+  private store(
+    field: Field & string,
+    buckets: Partial<Record<string, ValidationError[]>>[],
+  ) {
+    const isWithinField = (path: string) =>
+      path === field ||
+      path.startsWith(`${field}.`) ||
+      path.startsWith(`${field}[`)
+
+    const result: Record<string, ValidationError[]> = {}
+    for (const bucket of buckets) {
+      for (const [path, failures = []] of Object.entries(bucket)) {
+        if (!isWithinField(path)) continue
+        result[path] = [...(result[path] ?? []), ...failures]
+      }
+    }
+
+    for (const [path, state] of Object.entries(this.states)) {
+      if (isWithinField(path) && !(path in result)) {
+        state.failures = []
+      }
+    }
+
+    for (const [path, failures] of Object.entries(result)) {
+      this.stateFor(path).failures = failures
+    }
+  }
+}
+
+/**
+ * Creates a `ValidationState` for a model
+ * @param model The model to be validated
+ * @param constraints The constraints applied to the model, possibly compiled
+ * by `compileConstraints`
+ * @param options Additional settings
+ * @see ValidationState
+ */
+export function createValidator<M extends Model>(
+  model: M,
+  constraints: ModelConstraints<M> | CompiledConstraints<M>,
+  options: ValidationStateOptions = {},
+) {
+  return new ValidationState(model, constraints, options)
+}
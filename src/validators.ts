@@ -1,16 +1,24 @@
 import type {
   ConstraintOptions,
   Field,
+  I18nTranslationOptions,
   Model,
+  ValidationContext,
+  ValidationError,
   ValidatorFunction,
 } from './common.ts'
 import type { Constructor, Type } from './type-utils/object-natures.ts'
 
 import { isNone } from '@ember/utils'
-import { InvalidValueForConstraintError, messageForError } from './error.ts'
+import {
+  InvalidValueForConstraintError,
+  translateLabel,
+  validationErrorFor,
+} from './error.ts'
 import { hasLength } from './type-utils/has-length.ts'
 import { isEmailValid } from './utils/email-format.ts'
 import { isUUIDValid } from './utils/uuid-format.ts'
+import { isDateValid, parseDate } from './utils/date-parsing.ts'
 
 export type PresenceConstraintOptions = ConstraintOptions
 
@@ -25,7 +33,7 @@ export type PresenceConstraintOptions = ConstraintOptions
  * @param options
  * @see isNone
  */
-export function validatePresence(
+export function presenceErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -33,7 +41,7 @@ export function validatePresence(
 ) {
   if (isNone(value)) {
     const defaultMessage = `Must be present`
-    return messageForError(
+    return validationErrorFor(
       model,
       field,
       value,
@@ -44,6 +52,19 @@ export function validatePresence(
   }
 }
 
+/**
+ * Applies the `presence` constraint, reporting a failure by its message
+ * @see presenceErrorFor
+ */
+export function validatePresence(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: PresenceConstraintOptions,
+) {
+  return presenceErrorFor(model, field, value, options)?.message
+}
+
 export type AbsenceConstraintOptions = ConstraintOptions
 
 /**
@@ -57,7 +78,7 @@ export type AbsenceConstraintOptions = ConstraintOptions
  * @param options
  * @see isNone
  */
-export function validateAbsence(
+export function absenceErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -65,7 +86,7 @@ export function validateAbsence(
 ) {
   if (!isNone(value)) {
     const defaultMessage = `Must not be present`
-    return messageForError(
+    return validationErrorFor(
       model,
       field,
       value,
@@ -76,6 +97,19 @@ export function validateAbsence(
   }
 }
 
+/**
+ * Applies the `absence` constraint, reporting a failure by its message
+ * @see absenceErrorFor
+ */
+export function validateAbsence(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: AbsenceConstraintOptions,
+) {
+  return absenceErrorFor(model, field, value, options)?.message
+}
+
 /**
  * Contains a type name to be checked against `typeof` output
  */
@@ -90,7 +124,7 @@ export interface TypeConstraintOptions extends ConstraintOptions {
  * @param value
  * @param options
  */
-export function validateType(
+export function typeErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -98,36 +132,83 @@ export function validateType(
 ) {
   if (typeof value !== options.type) {
     const defaultMessage = `Must be a ${options.type}`
-    return messageForError(model, field, value, 'type', defaultMessage, options)
+    return validationErrorFor(
+      model,
+      field,
+      value,
+      'type',
+      defaultMessage,
+      options,
+    )
   }
 }
 
 /**
- * Contains a class against which values will be tested
+ * Applies the `type` constraint, reporting a failure by its message
+ * @see typeErrorFor
+ */
+export function validateType(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: TypeConstraintOptions,
+) {
+  return typeErrorFor(model, field, value, options)?.message
+}
+
+/**
+ * Contains the class, or classes, against which values will be tested
  */
 export interface InstanceConstraintOptions<T> extends ConstraintOptions {
-  Constructor: Constructor<T>
+  Constructor: Constructor<T> | readonly Constructor<T>[]
 }
 
 /**
- * Validates whether `value` is an instance of `options.Constructor`
+ * Validates whether `value` is an instance of `options.Constructor` or, if
+ * an array of classes is provided, of any of them.
+ *
+ * The names of the classes are provided for interpolation, joined by commas,
+ * as `constructors`.
  * @param model
  * @param field
  * @param value
  * @param options
  */
-export function validateInstance<T>(
+export function instanceErrorFor<T = unknown>(
   model: Model,
   field: Field,
   value: unknown,
-  options: InstanceConstraintOptions<T>,
+  options: InstanceConstraintOptions<NoInfer<T>>,
 ) {
-  if (!(value instanceof options.Constructor)) {
-    const defaultMessage = `Must be an instance of ${options.Constructor.name}`
-    return messageForError(model, field, value, 'type', defaultMessage, options)
+  const constructors: readonly Constructor<T>[] = Array.isArray(
+    options.Constructor,
+  )
+    ? options.Constructor
+    : [options.Constructor]
+
+  if (!constructors.some((Constructor) => value instanceof Constructor)) {
+    const names = constructors.map(({ name }) => name)
+    const defaultMessage = `Must be an instance of ${names.join(' or ')}`
+    return validationErrorFor(model, field, value, 'instance', defaultMessage, {
+      ...options,
+      constructors: names.join(', '),
+    })
   }
 }
 
+/**
+ * Applies the `instance` constraint, reporting a failure by its message
+ * @see instanceErrorFor
+ */
+export function validateInstance<T = unknown>(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: InstanceConstraintOptions<NoInfer<T>>,
+) {
+  return instanceErrorFor<T>(model, field, value, options)?.message
+}
+
 /**
  * Contains optional upper and lower limits for numeric validation
  */
@@ -150,7 +231,7 @@ export interface LengthConstraintOptions extends ConstraintOptions {
  * @param value
  * @param options
  */
-export function validateLength(
+export function lengthErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -168,7 +249,7 @@ export function validateLength(
   if (minimum !== undefined && maximum !== undefined) {
     if (length < minimum || length > maximum) {
       const defaultMessage = `Length must be between ${minimum} and ${maximum}`
-      return messageForError(
+      return validationErrorFor(
         model,
         field,
         value,
@@ -180,7 +261,7 @@ export function validateLength(
   } else if (minimum !== undefined) {
     if (length < minimum) {
       const defaultMessage = `Length must be greater than ${minimum}`
-      return messageForError(
+      return validationErrorFor(
         model,
         field,
         value,
@@ -192,7 +273,7 @@ export function validateLength(
   } else if (maximum !== undefined) {
     if (length > maximum) {
       const defaultMessage = `Length must be less than ${maximum}`
-      return messageForError(
+      return validationErrorFor(
         model,
         field,
         value,
@@ -204,6 +285,301 @@ export function validateLength(
   }
 }
 
+/**
+ * Applies the `length` constraint, reporting a failure by its message
+ * @see lengthErrorFor
+ */
+export function validateLength(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: LengthConstraintOptions,
+) {
+  return lengthErrorFor(model, field, value, options)?.message
+}
+
+/**
+ * Contains optional bounds and checks for numeric validation
+ */
+export interface NumericalityConstraintOptions extends ConstraintOptions {
+  greaterThan?: number
+  greaterThanOrEqualTo?: number
+  lessThan?: number
+  lessThanOrEqualTo?: number
+  equalTo?: number
+  otherThan?: number
+  onlyInteger?: boolean
+  odd?: boolean
+  even?: boolean
+  positive?: boolean
+  negative?: boolean
+
+  /**
+   * Whether strings containing a number (e.g. `'42'`) are accepted
+   * and validated as the number they contain
+   */
+  allowString?: boolean
+}
+
+/**
+ * Validates whether `value` is a number satisfying every check enabled in
+ * `options`. Bounds (`greaterThan`, `lessThanOrEqualTo`, ...) are checked
+ * whenever provided, while flags (`onlyInteger`, `odd`, ...) are checked
+ * when set to `true`. Only the first failed check is reported.
+ *
+ * Each check fails under its own constraint name, such as
+ * `numericality.greaterThan`. `NaN` and strings not containing a number fail
+ * under `numericality.notANumber`.
+ *
+ * Will throw `InvalidValueForConstraintError` if `value` is neither a number
+ * nor, when `options.allowString` is set, a string.
+ * @param model
+ * @param field
+ * @param value
+ * @param options
+ */
+export function numericalityErrorFor(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: NumericalityConstraintOptions,
+) {
+  let number: number
+  if (typeof value === 'number') {
+    number = value
+  } else if (typeof value === 'string' && options.allowString) {
+    number = value.trim() === '' ? NaN : Number(value)
+  } else {
+    const errorMessage = options.allowString
+      ? 'Must be a number or a string'
+      : 'Must be a number'
+    throw new InvalidValueForConstraintError(errorMessage)
+  }
+
+  const fail = (kind: string, defaultMessage: string) =>
+    validationErrorFor(
+      model,
+      field,
+      value,
+      `numericality.${kind}`,
+      defaultMessage,
+      options,
+    )
+
+  const {
+    greaterThan,
+    greaterThanOrEqualTo,
+    lessThan,
+    lessThanOrEqualTo,
+    equalTo,
+    otherThan,
+  } = options
+
+  if (Number.isNaN(number)) {
+    return fail('notANumber', 'Must be a number')
+  }
+  if (options.onlyInteger && !Number.isInteger(number)) {
+    return fail('onlyInteger', 'Must be an integer')
+  }
+  if (greaterThan !== undefined && number <= greaterThan) {
+    return fail('greaterThan', `Must be greater than ${greaterThan}`)
+  }
+  if (greaterThanOrEqualTo !== undefined && number < greaterThanOrEqualTo) {
+    const defaultMessage = `Must be greater than or equal to ${greaterThanOrEqualTo}`
+    return fail('greaterThanOrEqualTo', defaultMessage)
+  }
+  if (lessThan !== undefined && number >= lessThan) {
+    return fail('lessThan', `Must be less than ${lessThan}`)
+  }
+  if (lessThanOrEqualTo !== undefined && number > lessThanOrEqualTo) {
+    const defaultMessage = `Must be less than or equal to ${lessThanOrEqualTo}`
+    return fail('lessThanOrEqualTo', defaultMessage)
+  }
+  if (equalTo !== undefined && number !== equalTo) {
+    return fail('equalTo', `Must be equal to ${equalTo}`)
+  }
+  if (otherThan !== undefined && number === otherThan) {
+    return fail('otherThan', `Must be other than ${otherThan}`)
+  }
+  if (options.odd && Math.abs(number % 2) !== 1) {
+    return fail('odd', 'Must be odd')
+  }
+  if (options.even && number % 2 !== 0) {
+    return fail('even', 'Must be even')
+  }
+  if (options.positive && number <= 0) {
+    return fail('positive', 'Must be positive')
+  }
+  if (options.negative && number >= 0) {
+    return fail('negative', 'Must be negative')
+  }
+}
+
+/**
+ * Applies the `numericality` constraint, reporting a failure by its message
+ * @see numericalityErrorFor
+ */
+export function validateNumericality(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: NumericalityConstraintOptions,
+) {
+  return numericalityErrorFor(model, field, value, options)?.message
+}
+
+/**
+ * Defines the values accepted as dates: `Date` instances, date strings (e.g.
+ * in ISO 8601 format) and epoch milliseconds
+ */
+export type DateLike = Date | string | number
+
+/**
+ * Defines a date against which values are compared. It can be either:
+ *   1. An absolute date;
+ *   2. A function of the model and of the current date;
+ *   3. `{ on }`, naming a sibling field whose value is used as the date, like
+ *      the `on` option of `confirmation` and `compare`. It is wrapped in an
+ *      object because a bare string is already read as a date string.
+ */
+export type DateBound =
+  | DateLike
+  | ((model: Model, now: Date) => DateLike | null | undefined)
+  | { on: Field }
+
+/**
+ * Contains optional bounds for date validation
+ */
+export interface DateConstraintOptions extends ConstraintOptions {
+  before?: DateBound
+  after?: DateBound
+  onOrBefore?: DateBound
+  onOrAfter?: DateBound
+
+  /**
+   * Provides the current date to relative bounds. Defaults to the
+   * system clock.
+   */
+  now?(): Date
+}
+
+/**
+ * Lists the bounds of `validateDate`, along with their failure condition
+ * and default message
+ */
+const DATE_BOUNDS = [
+  ['before', (date, bound) => date >= bound, 'Must be before'],
+  ['after', (date, bound) => date <= bound, 'Must be after'],
+  ['onOrBefore', (date, bound) => date > bound, 'Must be on or before'],
+  ['onOrAfter', (date, bound) => date < bound, 'Must be on or after'],
+] as const satisfies readonly [
+  keyof DateConstraintOptions,
+  (date: number, bound: number) => boolean,
+  string,
+][]
+
+/**
+ * Resolves a date bound into a date
+ * @param bound The bound to be resolved
+ * @param model The model being validated
+ * @param now The current date
+ * @returns The bound's date, or `undefined` if it points to an empty field
+ * or function result
+ */
+function resolveDateBound(bound: DateBound, model: Model, now: Date) {
+  let dateLike: unknown = bound
+  if (typeof bound === 'function') {
+    dateLike = bound(model, now)
+  } else if (typeof bound === 'object' && !(bound instanceof Date)) {
+    dateLike = model[bound.on]
+  }
+
+  if (isNone(dateLike)) return
+
+  const date = parseDate(dateLike)
+  if (date === undefined || !isDateValid(date)) {
+    const errorMessage = 'Date bounds must resolve to valid dates'
+    throw new InvalidValueForConstraintError(errorMessage)
+  }
+
+  return date
+}
+
+/**
+ * Validates whether `value` is a valid date satisfying every bound provided
+ * in `options`. Only the first failed bound is reported.
+ *
+ * Each bound fails under its own constraint name, such as `date.before`.
+ * Invalid dates fail under `date.invalid`. When translating, failed bounds
+ * are provided as resolved `Date` instances.
+ *
+ * Will throw `InvalidValueForConstraintError` if `value` is not a `Date`, a
+ * string or a number, or if a bound does not resolve to a valid date.
+ * Bounds resolving to `null` or `undefined`, such as empty sibling fields,
+ * are ignored.
+ * @param model
+ * @param field
+ * @param value
+ * @param options
+ */
+export function dateErrorFor(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: DateConstraintOptions,
+) {
+  const date = parseDate(value)
+  if (date === undefined) {
+    const errorMessage = 'Must be a date, a string or a number'
+    throw new InvalidValueForConstraintError(errorMessage)
+  }
+
+  if (!isDateValid(date)) {
+    const defaultMessage = 'Must be a valid date'
+    return validationErrorFor(
+      model,
+      field,
+      value,
+      'date.invalid',
+      defaultMessage,
+      options,
+    )
+  }
+
+  const now = options.now?.() ?? new Date()
+
+  for (const [kind, fails, message] of DATE_BOUNDS) {
+    const bound = options[kind]
+    if (bound === undefined) continue
+
+    const boundDate = resolveDateBound(bound, model, now)
+    if (boundDate && fails(date.getTime(), boundDate.getTime())) {
+      const defaultMessage = `${message} ${boundDate.toISOString()}`
+      return validationErrorFor(
+        model,
+        field,
+        value,
+        `date.${kind}`,
+        defaultMessage,
+        { ...options, [kind]: boundDate },
+      )
+    }
+  }
+}
+
+/**
+ * Applies the `date` constraint, reporting a failure by its message
+ * @see dateErrorFor
+ */
+export function validateDate(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: DateConstraintOptions,
+) {
+  return dateErrorFor(model, field, value, options)?.message
+}
+
 export type EmailConstraintOptions = ConstraintOptions
 
 /**
@@ -215,7 +591,7 @@ export type EmailConstraintOptions = ConstraintOptions
  * @param value
  * @param options
  */
-export function validateEmail(
+export function emailErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -228,7 +604,7 @@ export function validateEmail(
 
   if (!isEmailValid(value)) {
     const defaultMessage = `Must be a valid email address`
-    return messageForError(
+    return validationErrorFor(
       model,
       field,
       value,
@@ -239,6 +615,19 @@ export function validateEmail(
   }
 }
 
+/**
+ * Applies the `email` constraint, reporting a failure by its message
+ * @see emailErrorFor
+ */
+export function validateEmail(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: EmailConstraintOptions,
+) {
+  return emailErrorFor(model, field, value, options)?.message
+}
+
 /**
  * Contains a regular expression against which to match the provided value
  */
@@ -255,7 +644,7 @@ export interface FormatConstraintOptions extends ConstraintOptions {
  * @param value
  * @param options
  */
-export function validateFormat(
+export function formatErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -268,7 +657,7 @@ export function validateFormat(
 
   if (!value.match(options.pattern)) {
     const defaultMessage = `Must have a valid format`
-    return messageForError(
+    return validationErrorFor(
       model,
       field,
       value,
@@ -279,6 +668,19 @@ export function validateFormat(
   }
 }
 
+/**
+ * Applies the `format` constraint, reporting a failure by its message
+ * @see formatErrorFor
+ */
+export function validateFormat(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: FormatConstraintOptions,
+) {
+  return formatErrorFor(model, field, value, options)?.message
+}
+
 /**
  * Contains the name of the field against which the provided value
  * should be checked for identity
@@ -288,31 +690,226 @@ export interface ConfirmationConstraintOptions extends ConstraintOptions {
 }
 
 /**
- * Validates whether `value` is identical to `model[options.on]`
+ * Names another field of the model in error messages
+ * @param other The name of the other field
+ * @param basics The context of the failed constraint
+ * @param options The options provided to the constraint
+ * @param context The validation run, holding the labels of the model's fields
+ * @returns The other field's translated label, along with how it is shown
+ * in default messages: as is if labelled, or else quoted. Labelled fields
+ * also keep their label as given
+ */
+function describeOtherField(
+  other: Field,
+  basics: Omit<I18nTranslationOptions, 'label'>,
+  options: ConstraintOptions,
+  { labels }: ValidationContext,
+) {
+  const label = labels?.[other]
+  if (label === undefined) {
+    return { otherLabel: String(other), shown: `'${String(other)}'` }
+  }
+
+  const otherLabel = translateLabel(label, basics, options.i18n)
+  return { otherLabel, shown: otherLabel, labelKey: label }
+}
+
+/**
+ * Keeps the other field's label as given on a failure, so `translateError`
+ * can translate it again
+ * @param error The failure
+ * @param labelKey The other field's label as given, if it is labelled
+ */
+function withOtherLabelKey(
+  error: ValidationError,
+  labelKey: string | undefined,
+): ValidationError {
+  if (labelKey === undefined) return error
+  return { ...error, labelKeys: { ...error.labelKeys, otherLabel: labelKey } }
+}
+
+/**
+ * Validates whether `value` is identical to `model[options.on]`.
+ *
+ * When translating, the other field's label is provided as `otherLabel`.
  * @param model
  * @param field
  * @param value
  * @param options
+ * @param context The validation run, holding the other field's label
  */
-export function validateConfirmation(
+export function confirmationErrorFor(
   model: Model,
   field: Field,
   value: unknown,
   options: ConfirmationConstraintOptions,
+  context: ValidationContext = {},
 ) {
   if (value !== model[options.on]) {
-    const defaultMessage = `Must match '${String(options.on)}'`
-    return messageForError(
+    const constraint = 'confirmation'
+    const { otherLabel, shown, labelKey } = describeOtherField(
+      options.on,
+      { constraint, model, field, value },
+      options,
+      context,
+    )
+    const defaultMessage = `Must match ${shown}`
+    const error = validationErrorFor(
       model,
       field,
       value,
-      'confirmation',
+      constraint,
       defaultMessage,
+      { ...options, otherLabel },
+    )
+    return withOtherLabelKey(error, labelKey)
+  }
+}
+
+/**
+ * Applies the `confirmation` constraint, reporting a failure by its message
+ * @see confirmationErrorFor
+ */
+export function validateConfirmation(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: ConfirmationConstraintOptions,
+  context: ValidationContext = {},
+) {
+  return confirmationErrorFor(model, field, value, options, context)?.message
+}
+
+/**
+ * Defines the operators by which `validateComparison` compares values
+ */
+export type ComparisonOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte'
+
+/**
+ * Orders two values, returning a negative number if `a` comes before `b`,
+ * a positive number if it comes after and zero if they are equivalent.
+ * `NaN` means the values cannot be compared, and so differ.
+ */
+export type Comparator = (a: unknown, b: unknown) => number
+
+/**
+ * Contains the name of the field against which the provided value is
+ * compared, and how to compare them
+ */
+export interface CompareConstraintOptions extends ConstraintOptions {
+  on: Field
+  operator: ComparisonOperator
+
+  /**
+   * Orders the field's value and the other field's value. By default,
+   * dates are compared by their time and other values by the `<`, `>` and
+   * `===` operators.
+   */
+  comparator?: Comparator
+}
+
+/**
+ * Orders values by the `<`, `>` and `===` operators, comparing dates by
+ * their time
+ * @param a
+ * @param b
+ */
+function compareValues(a: unknown, b: unknown) {
+  const left = (a instanceof Date ? a.getTime() : a) as number
+  const right = (b instanceof Date ? b.getTime() : b) as number
+
+  if (left === right) return 0
+  if (left < right) return -1
+  if (left > right) return 1
+  return NaN
+}
+
+/**
+ * Maps each comparison operator to whether an ordering satisfies it, along
+ * with the default message used when it does not. Orderings of `NaN` mean
+ * the values cannot be compared: they differ, so only `neq` is satisfied.
+ */
+const COMPARISONS: Record<
+  ComparisonOperator,
+  readonly [(order: number) => boolean, string]
+> = {
+  eq: [(order) => order === 0, 'Must be equal to'],
+  neq: [(order) => order !== 0, 'Must differ from'],
+  lt: [(order) => order < 0, 'Must be less than'],
+  lte: [(order) => order <= 0, 'Must be less than or equal to'],
+  gt: [(order) => order > 0, 'Must be greater than'],
+  gte: [(order) => order >= 0, 'Must be greater than or equal to'],
+}
+
+/**
+ * Lists the operators accepted by `compare`
+ */
+export const COMPARISON_OPERATORS = Object.keys(
+  COMPARISONS,
+) as ComparisonOperator[]
+
+/**
+ * Validates whether `value` compares to `model[options.on]` as required by
+ * `options.operator` (e.g. `gt` requires `value` to be greater).
+ *
+ * Each operator fails under its own constraint name, such as `compare.gt`.
+ * When translating, the other field's name, label and value are provided as
+ * `otherField`, `otherLabel` and `otherValue`.
+ *
+ * If the other field is `null` or `undefined`, no comparison is performed.
+ * @param model
+ * @param field
+ * @param value
+ * @param options
+ * @param context The validation run, holding the other field's label
+ */
+export function comparisonErrorFor(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: CompareConstraintOptions,
+  context: ValidationContext = {},
+) {
+  const { on, operator, comparator = compareValues } = options
+  const otherValue = model[on]
+  if (isNone(otherValue)) return
+
+  const [isSatisfied, message] = COMPARISONS[operator]
+  if (!isSatisfied(comparator(value, otherValue))) {
+    const constraint = `compare.${operator}`
+    const { otherLabel, shown, labelKey } = describeOtherField(
+      on,
+      { constraint, model, field, value },
       options,
+      context,
+    )
+    const defaultMessage = `${message} ${shown}`
+    const error = validationErrorFor(
+      model,
+      field,
+      value,
+      constraint,
+      defaultMessage,
+      { ...options, otherField: on, otherLabel, otherValue },
     )
+    return withOtherLabelKey(error, labelKey)
   }
 }
 
+/**
+ * Applies the `compare` constraint, reporting a failure by its message
+ * @see comparisonErrorFor
+ */
+export function validateComparison(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: CompareConstraintOptions,
+  context: ValidationContext = {},
+) {
+  return comparisonErrorFor(model, field, value, options, context)?.message
+}
+
 /**
  * Stores an array of elements allowed
  */
@@ -327,7 +924,7 @@ export interface InclusionConstraintOptions extends ConstraintOptions {
  * @param value
  * @param options
  */
-export function validateInclusion(
+export function inclusionErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -335,7 +932,7 @@ export function validateInclusion(
 ) {
   if (!options.in.includes(value)) {
     const defaultMessage = 'Must be an allowed value'
-    return messageForError(
+    return validationErrorFor(
       model,
       field,
       value,
@@ -346,6 +943,19 @@ export function validateInclusion(
   }
 }
 
+/**
+ * Applies the `inclusion` constraint, reporting a failure by its message
+ * @see inclusionErrorFor
+ */
+export function validateInclusion(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: InclusionConstraintOptions,
+) {
+  return inclusionErrorFor(model, field, value, options)?.message
+}
+
 /**
  * Stores an array of elements disallowed
  */
@@ -360,7 +970,7 @@ export interface ExclusionConstraintOptions extends ConstraintOptions {
  * @param value
  * @param options
  */
-export function validateExclusion(
+export function exclusionErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -368,17 +978,30 @@ export function validateExclusion(
 ) {
   if (options.from.includes(value)) {
     const defaultMessage = 'Must not be a disallowed value'
-    return messageForError(
+    return validationErrorFor(
       model,
       field,
       value,
-      'inclusion',
+      'exclusion',
       defaultMessage,
       options,
     )
   }
 }
 
+/**
+ * Applies the `exclusion` constraint, reporting a failure by its message
+ * @see exclusionErrorFor
+ */
+export function validateExclusion(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: ExclusionConstraintOptions,
+) {
+  return exclusionErrorFor(model, field, value, options)?.message
+}
+
 export type UUIDConstraintOptions = ConstraintOptions
 
 /**
@@ -389,7 +1012,7 @@ export type UUIDConstraintOptions = ConstraintOptions
  * @param value
  * @param options
  */
-export function validateUUID(
+export function uuidErrorFor(
   model: Model,
   field: Field,
   value: unknown,
@@ -402,10 +1025,30 @@ export function validateUUID(
 
   if (!isUUIDValid(value)) {
     const defaultMessage = 'Must contain a valid UUID'
-    return messageForError(model, field, value, 'uuid', defaultMessage, options)
+    return validationErrorFor(
+      model,
+      field,
+      value,
+      'uuid',
+      defaultMessage,
+      options,
+    )
   }
 }
 
+/**
+ * Applies the `uuid` constraint, reporting a failure by its message
+ * @see uuidErrorFor
+ */
+export function validateUUID(
+  model: Model,
+  field: Field,
+  value: unknown,
+  options: UUIDConstraintOptions,
+) {
+  return uuidErrorFor(model, field, value, options)?.message
+}
+
 /**
  * Contains a user-provide validator function to be used in custom validations.
  */
@@ -420,12 +1063,14 @@ export interface CustomConstraintOptions extends ConstraintOptions {
  * @param field
  * @param value
  * @param options
+ * @param context The validation run, handed over to the validator function
  */
 export function validateCustom<Options extends CustomConstraintOptions>(
   model: Model,
   field: Field,
   value: unknown,
   options: Options,
+  context: ValidationContext = {},
 ) {
-  return options.with(model, field, value, options)
+  return options.with(model, field, value, options, context)
 }
@@ -5,6 +5,7 @@ import * as QUnit from 'qunit'
 import { setApplication } from '@ember/test-helpers'
 import { setup } from 'qunit-dom'
 import { start as qunitStart, setupEmberOnerrorValidation } from 'ember-qunit'
+import PerspectiveService from '#src/services/perspective.ts'
 
 class Router extends EmberRouter {
   location = 'none'
@@ -15,6 +16,7 @@ class TestApp extends EmberApp {
   modulePrefix = 'test-app'
   Resolver = Resolver.withModules({
     'test-app/router': { default: Router },
+    'test-app/services/perspective': { default: PerspectiveService },
     // add any custom services here
   })
 }
@@ -0,0 +1,194 @@
+import { module, test } from 'qunit'
+import { CompiledConstraints, compileConstraints } from '#src/compile.ts'
+import { validate, validateSync, type ModelConstraints } from '#src/core.ts'
+import {
+  InvalidConstraintsError,
+  RequiredOptionMissingError,
+  UnknownConstraintError,
+} from '#src/error.ts'
+import { ConstraintRegistry, defaultRegistry } from '#src/registry.ts'
+
+type Order = {
+  email?: string
+  address?: { zip?: string }
+  items: { quantity?: number }[]
+}
+
+module('Unit | Compile | compileConstraints', function () {
+  test('compiles well-formed constraints', function (assert) {
+    const constraints: ModelConstraints<Order> = {
+      email: { presence: true, format: { pattern: /@/ } },
+      address: { nested: { constraints: { zip: { presence: true } } } },
+    }
+
+    const schema = compileConstraints(constraints)
+
+    assert.true(schema instanceof CompiledConstraints)
+    assert.equal(schema.constraints, constraints)
+  })
+
+  test('reports every problem at once', function (assert) {
+    const constraints = {
+      email: {
+        presense: true,
+        format: { pattern: '@' },
+      },
+      address: {
+        nested: { constraints: { zip: { inclusion: { in: '01234' } } } },
+      },
+      items: {
+        each: {
+          nested: {
+            constraints: { quantity: { custom: { with: 'positive' } } },
+          },
+        },
+      },
+    } as unknown as ModelConstraints<Order>
+
+    const error = (() => {
+      try {
+        compileConstraints(constraints)
+      } catch (error) {
+        return error
+      }
+    })()
+
+    assert.true(error instanceof InvalidConstraintsError)
+
+    const { problems, message } = error as InvalidConstraintsError
+    assert.deepEqual(
+      problems.map(({ path, constraint }) => `${path} ${constraint}`),
+      [
+        'email presense',
+        'email format',
+        'address.zip inclusion',
+        'items[].quantity custom',
+      ],
+    )
+    assert.true(problems[0]?.error instanceof UnknownConstraintError)
+    assert.true(problems[1]?.error instanceof RequiredOptionMissingError)
+    assert.true(
+      message.includes(
+        'address.zip (inclusion): An array of the accepted values must be provided',
+      ),
+    )
+  })
+
+  test('does not check labels as constraints', function (assert) {
+    const schema = compileConstraints<Order>({
+      email: { label: 'E-mail', presence: true },
+    })
+
+    assert.deepEqual(validateSync({ items: [] }, schema), {
+      email: ['Must be present'],
+    })
+  })
+
+  test('does not check field conditions as constraints', function (assert) {
+    const schema = compileConstraints<Order>({
+      email: [{ when: { field: 'items', truthy: true } }, { presence: true }],
+    })
+
+    assert.deepEqual(validateSync({ items: [] }, schema), {
+      email: ['Must be present'],
+    })
+  })
+
+  test('checks ordered constraints and their dependencies', function (assert) {
+    assert.throws(
+      () =>
+        compileConstraints<Order>({
+          email: [
+            { format: { pattern: /@/, dependsOn: ['presence'] } },
+            { presence: true },
+            { custom: { with: () => {}, dependsOn: ['presence'] } },
+          ],
+        }),
+      (error: InvalidConstraintsError) =>
+        error.problems.length === 1 &&
+        error.message.includes(
+          'email (format): Depends on presence, which is not applied before it',
+        ),
+    )
+  })
+
+  test('accepts date bounds on other fields', function (assert) {
+    const schema = compileConstraints<{ startDate: string; endDate: string }>({
+      startDate: { date: { before: { on: 'endDate' } } },
+    })
+
+    assert.deepEqual(
+      validateSync({ startDate: '2025-07-09', endDate: '2025-07-10' }, schema),
+      {},
+    )
+  })
+
+  test('checks constraints regardless of conditions', function (assert) {
+    assert.throws(
+      () =>
+        compileConstraints({
+          email: { format: { if: () => false } },
+        } as unknown as ModelConstraints<Order>),
+      InvalidConstraintsError,
+    )
+  })
+
+  test('reports malformed structural constraints', function (assert) {
+    assert.throws(
+      () =>
+        compileConstraints({
+          address: { nested: {} },
+        } as unknown as ModelConstraints<Order>),
+      /address \(nested\): The constraints of nested fields must be provided/,
+    )
+  })
+
+  test('looks constraints up in the given registry', function (assert) {
+    const registry = new ConstraintRegistry()
+
+    assert.throws(
+      () => compileConstraints({ email: { presence: true } }, { registry }),
+      /Unknown constraint presence/,
+    )
+  })
+})
+
+module('Unit | Compile | validating compiled constraints', function () {
+  test('validate and validateSync accept compiled constraints', async function (assert) {
+    const schema = compileConstraints<Order>({
+      email: { presence: true },
+      items: {
+        each: { nested: { constraints: { quantity: { presence: true } } } },
+      },
+    })
+    const order: Order = { items: [{ quantity: 1 }, {}] }
+    const expected = {
+      email: ['Must be present'],
+      'items[1].quantity': ['Must be present'],
+    }
+
+    assert.deepEqual(await validate(order, schema), expected)
+    assert.deepEqual(validateSync(order, schema), expected)
+  })
+
+  test('does not check options again', async function (assert) {
+    const registry = defaultRegistry.clone()
+    let checks = 0
+
+    registry.register('even', () => {}, {
+      checkOptions: () => {
+        checks++
+      },
+    })
+
+    const schema = compileConstraints<{ count: number }>(
+      { count: { even: { strict: true } } },
+      { registry },
+    )
+
+    await validate({ count: 2 }, schema)
+    await validate({ count: 3 }, schema)
+
+    assert.equal(checks, 1)
+  })
+})
@@ -0,0 +1,1830 @@
+import { module, test } from 'qunit'
+import {
+  validate,
+  validateField,
+  validateFieldSync,
+  validateSync,
+  type ModelConstraints,
+} from '#src/core.ts'
+import { ConstraintRegistry, defaultRegistry } from '#src/registry.ts'
+import { when } from '#src/conditions.ts'
+import {
+  AsynchronousConstraintError,
+  InvalidValueForConstraintError,
+  RequiredOptionMissingError,
+  UnknownConstraintError,
+} from '#src/error.ts'
+import type {
+  ConstraintOptions,
+  Field,
+  I18nHandler,
+  Model,
+} from '#src/common.ts'
+import type { ConstraintOptionsMap } from '#src/constraints.ts'
+
+interface EvenConstraintOptions extends ConstraintOptions {
+  strict: boolean
+}
+
+declare module '#src/constraints.ts' {
+  interface ConstraintOptionsMap {
+    even: EvenConstraintOptions
+  }
+}
+
+function validateEven(
+  _model: Model,
+  _field: Field,
+  value: unknown,
+  options: EvenConstraintOptions,
+) {
+  if (options.strict && typeof value !== 'number') {
+    return 'Must be a number'
+  }
+  if (Number(value) % 2 !== 0) {
+    return 'Must be even'
+  }
+}
+
+function checkEvenOptions(options: ConstraintOptions) {
+  if (!('strict' in options)) {
+    throw new RequiredOptionMissingError('Strictness must be provided')
+  }
+}
+
+/**
+ * Creates a custom constraint recording its calls, failing with `message`
+ * if given
+ */
+function recorded(calls: string[], name: string, message?: string) {
+  return {
+    with: () => {
+      calls.push(name)
+      return message
+    },
+  }
+}
+
+module('Unit | Core | validateField', function () {
+  test('collects the errors of every failing constraint', async function (assert) {
+    const model = { name: 'a' }
+
+    const errors = await validateField(model, 'name', {
+      presence: {},
+      length: { minimum: 3 },
+      format: { pattern: /^\d+$/ },
+    })
+
+    assert.equal(errors.length, 2)
+  })
+
+  test('halts on the first error when requested', async function (assert) {
+    const model = { name: 'a' }
+
+    const errors = await validateField(
+      model,
+      'name',
+      { length: { minimum: 3 }, format: { pattern: /^\d+$/ } },
+      { haltBy: 'first-error' },
+    )
+
+    assert.equal(errors.length, 1)
+  })
+
+  test('throws on unknown constraints', async function (assert) {
+    await assert.rejects(
+      // @ts-expect-error: the constraint is not declared on purpose
+      validateField({ name: 'a' }, 'name', { unknown: {} }),
+      UnknownConstraintError,
+    )
+  })
+
+  test('checks constraint options before validating', async function (assert) {
+    await assert.rejects(
+      // @ts-expect-error: the pattern is omitted on purpose
+      validateField({ name: 'a' }, 'name', { format: {} }),
+      RequiredOptionMissingError,
+    )
+    await assert.rejects(
+      validateField({ age: 1 }, 'age', {
+        // @ts-expect-error: bounds must be numbers
+        numericality: { greaterThan: '0' },
+      }),
+      RequiredOptionMissingError,
+    )
+    await assert.rejects(
+      validateField({ date: '2025-01-01' }, 'date', {
+        // @ts-expect-error: bounds must be dates, functions or field references
+        date: { before: true },
+      }),
+      RequiredOptionMissingError,
+    )
+    await assert.rejects(
+      validateField({ max: 1 }, 'max', {
+        // @ts-expect-error: the operator must be a known one
+        compare: { on: 'min', operator: '>' },
+      }),
+      RequiredOptionMissingError,
+    )
+    await assert.rejects(
+      validateField({ max: 1 }, 'max', {
+        // @ts-expect-error: the operator must be a known one
+        compare: { on: 'min', operator: '>' },
+      }),
+      /The operator must be one of eq, neq, lt, lte, gt, gte/,
+    )
+  })
+
+  test('accepts date bounds on other fields', async function (assert) {
+    const constraints: ModelConstraints<{
+      startDate: string
+      endDate: string
+    }> = { startDate: { date: { before: { on: 'endDate' } } } }
+
+    assert.deepEqual(
+      await validate(
+        { startDate: '2025-07-09', endDate: '2025-07-10' },
+        constraints,
+      ),
+      {},
+    )
+    assert.deepEqual(
+      await validate(
+        { startDate: '2025-07-11', endDate: '2025-07-10' },
+        constraints,
+      ),
+      { startDate: ['Must be before 2025-07-10T00:00:00.000Z'] },
+    )
+  })
+})
+
+module('Unit | Core | validate', function () {
+  test('returns the errors of each failing field', async function (assert) {
+    const model = { name: null, email: 'not an email', age: 30 }
+
+    const result = await validate(model, {
+      name: { presence: {} },
+      email: { email: {} },
+      age: { type: { type: 'number' } },
+    })
+
+    assert.deepEqual(Object.keys(result), ['name', 'email'])
+  })
+
+  test('halts on the first failing field when requested', async function (assert) {
+    const model = { name: null, email: 'not an email' }
+
+    const result = await validate(
+      model,
+      { name: { presence: {} }, email: { email: {} } },
+      { haltBy: 'first-error' },
+    )
+
+    assert.deepEqual(Object.keys(result), ['name'])
+  })
+})
+
+module('Unit | Core | error objects', function () {
+  test('reports failed constraints as objects when requested', async function (assert) {
+    const model = { name: 'ab' }
+
+    const [error] = await validateField(
+      model,
+      'name',
+      { length: { minimum: 3 } },
+      { output: 'errors' },
+    )
+
+    assert.equal(error?.constraint, 'length.minimum')
+    assert.equal(error?.field, 'name')
+    assert.equal(error?.value, 'ab')
+    assert.equal(error?.key, 'validation.length.minimum')
+    assert.equal(error?.options.minimum, 3)
+    assert.equal(error?.message, 'Length must be greater than 3')
+  })
+
+  test('tells failure kinds of the same constraint apart', async function (assert) {
+    const constraints = { name: { length: { minimum: 2, maximum: 3 } } }
+
+    const short = await validate({ name: 'a' }, constraints, {
+      output: 'errors',
+    })
+    const long = await validate({ name: 'abcd' }, constraints, {
+      output: 'errors',
+    })
+
+    assert.equal(short.name?.[0]?.constraint, 'length.interval')
+    assert.equal(long.name?.[0]?.constraint, 'length.interval')
+
+    const minimum = await validate(
+      { name: 'a' },
+      { name: { length: { minimum: 2 } } },
+      { output: 'errors' },
+    )
+    const maximum = await validate(
+      { name: 'abcd' },
+      { name: { length: { maximum: 3 } } },
+      { output: 'errors' },
+    )
+
+    assert.equal(minimum.name?.[0]?.constraint, 'length.minimum')
+    assert.equal(maximum.name?.[0]?.constraint, 'length.maximum')
+  })
+
+  test('wraps messages returned by custom validators', async function (assert) {
+    const model = { code: 'x' }
+
+    const result = await validate(
+      model,
+      { code: { custom: { with: () => 'Invalid code' } } },
+      { output: 'errors' },
+    )
+    const error = result.code?.[0]
+
+    assert.equal(error?.constraint, 'custom')
+    assert.equal(error?.key, 'validation.custom')
+    assert.equal(error?.message, 'Invalid code')
+    assert.equal(error?.options.model, model)
+  })
+
+  test('messages are a projection of error objects', async function (assert) {
+    const model = { name: 'a', email: 'nope', address: { zip: null } }
+    const constraints = {
+      name: { length: { minimum: 3 }, format: { pattern: /^\d+$/ } },
+      email: { email: true },
+      address: { nested: { constraints: { zip: { presence: true } } } },
+    } as const
+
+    const messages = await validate(model, constraints)
+    const errors = await validate(model, constraints, { output: 'errors' })
+
+    assert.deepEqual(
+      messages,
+      Object.fromEntries(
+        Object.entries(errors).map(([path, pathErrors]) => [
+          path,
+          pathErrors?.map(({ message }) => message),
+        ]),
+      ),
+    )
+  })
+})
+
+/**
+ * Creates a handler translating flat keys into fixed messages
+ */
+function handlerFor(messages: Record<string, string>): I18nHandler {
+  return {
+    exists: (key) => key in messages,
+    t: (key) => messages[key]!,
+  }
+}
+
+module('Unit | Core | run-level translations', function () {
+  test('translates with the handler of the run', async function (assert) {
+    const i18n = { handler: handlerFor({ 'validation.presence': 'Requis' }) }
+    const constraints = { name: { presence: true } } as const
+
+    assert.deepEqual(await validate({}, constraints, { i18n }), {
+      name: ['Requis'],
+    })
+    assert.deepEqual(validateSync({}, constraints, { i18n }), {
+      name: ['Requis'],
+    })
+    assert.deepEqual(
+      await validateField(
+        { name: undefined },
+        'name',
+        { presence: true },
+        { i18n },
+      ),
+      ['Requis'],
+    )
+    assert.deepEqual(
+      validateFieldSync(
+        { name: undefined },
+        'name',
+        { presence: true },
+        { i18n },
+      ),
+      ['Requis'],
+    )
+  })
+
+  test('looks translations up under the prefix of the run', async function (assert) {
+    const i18n = {
+      handler: handlerFor({ 'errors.length.minimum': 'Trop court' }),
+      prefix: 'errors',
+    }
+
+    const [error] = await validateField(
+      { name: 'a' },
+      'name',
+      { length: { minimum: 2 } },
+      { i18n, output: 'errors' },
+    )
+
+    assert.equal(error?.key, 'errors.length.minimum')
+    assert.equal(error?.message, 'Trop court')
+  })
+
+  test('applies the prefix to timeout and invalid value failures', async function (assert) {
+    const result = await validate(
+      { slow: 1, email: 1 },
+      {
+        slow: { custom: { with: () => new Promise(() => {}), timeout: 1 } },
+        email: { email: true },
+      },
+      { i18n: { prefix: 'errors' }, onInvalidValue: 'fail', output: 'errors' },
+    )
+
+    assert.equal(result.slow?.[0]?.key, 'errors.timeout')
+    assert.equal(result.email?.[0]?.key, 'errors.invalidValue')
+  })
+
+  test('translates nested fields with the settings of the run', function (assert) {
+    const result = validateSync(
+      { address: {} as { zip?: string } },
+      { address: { nested: { constraints: { zip: { presence: true } } } } },
+      { i18n: { handler: handlerFor({ 'validation.presence': 'Requis' }) } },
+    )
+
+    assert.deepEqual(result, { 'address.zip': ['Requis'] })
+  })
+
+  test('lets constraints override the settings of the run', async function (assert) {
+    const i18n = {
+      handler: handlerFor({
+        'validation.presence': 'Requis',
+        'user.name.missing': 'Nom requis',
+      }),
+    }
+
+    const result = await validate(
+      {},
+      {
+        name: { presence: { i18n: { key: 'user.name.missing' } } },
+        email: { presence: { message: 'Email please' } },
+        nickname: { presence: { i18n: { handler: handlerFor({}) } } },
+      },
+      { i18n },
+    )
+
+    assert.deepEqual(result, {
+      name: ['Nom requis'],
+      email: ['Email please'],
+      nickname: ['Must be present'],
+    })
+  })
+
+  test('hands the settings of the run over to validators', async function (assert) {
+    const i18n = { prefix: 'errors' }
+    let received: unknown
+
+    await validate(
+      { name: 'x' },
+      {
+        name: {
+          custom: {
+            with: (_model, _field, _value, _options, context) => {
+              received = context.i18n
+            },
+          },
+        },
+      },
+      { i18n },
+    )
+
+    assert.equal(received, i18n)
+  })
+})
+
+module('Unit | Core | labels', function () {
+  type Account = {
+    email?: string
+    password?: string
+    passwordConfirmation?: string
+  }
+
+  test('names fields by their label in default messages', async function (assert) {
+    const account: Account = { password: 'secret', passwordConfirmation: 'x' }
+    const constraints: ModelConstraints<Account> = {
+      password: { label: 'Password' },
+      passwordConfirmation: { confirmation: { on: 'password' } },
+    }
+
+    const expected = { passwordConfirmation: ['Must match Password'] }
+
+    assert.deepEqual(await validate(account, constraints), expected)
+    assert.deepEqual(validateSync(account, constraints), expected)
+  })
+
+  test('passes labels on to translations', async function (assert) {
+    const account: Account = { password: 'secret', passwordConfirmation: 'x' }
+    const i18n = {
+      handler: handlerFor({
+        'fields.password': 'Mot de passe',
+        'validation.confirmation': 'Ne correspond pas',
+      }),
+    }
+
+    const result = await validate(
+      account,
+      {
+        password: { label: 'fields.password' },
+        passwordConfirmation: {
+          label: 'Confirmation',
+          confirmation: { on: 'password' },
+        },
+      },
+      { i18n, output: 'errors' },
+    )
+    const error = result.passwordConfirmation?.[0]
+
+    assert.equal(error?.options.label, 'Confirmation')
+    assert.equal(error?.options.otherLabel, 'Mot de passe')
+    assert.equal(error?.message, 'Ne correspond pas')
+  })
+
+  test('defaults labels to field names', async function (assert) {
+    const [error] = await validateField(
+      { email: undefined },
+      'email',
+      { presence: true },
+      { output: 'errors' },
+    )
+
+    assert.equal(error?.options.label, 'email')
+  })
+
+  test('lets constraints override the label of the field', async function (assert) {
+    const result = await validate(
+      {} as Account,
+      {
+        email: {
+          label: 'Email',
+          presence: { label: 'E-mail address' },
+          format: { pattern: /@/, allowUndefined: true },
+        },
+      },
+      { output: 'errors' },
+    )
+
+    assert.equal(result.email?.[0]?.options.label, 'E-mail address')
+  })
+
+  test('resolves labels among the fields of the same model', async function (assert) {
+    const model = {
+      password: 'secret',
+      profile: { password: 'other', passwordConfirmation: 'x' },
+    }
+
+    const result = await validate(model, {
+      password: { label: 'Password' },
+      profile: {
+        nested: {
+          constraints: {
+            passwordConfirmation: { confirmation: { on: 'password' } },
+          },
+        },
+      },
+    })
+
+    assert.deepEqual(result, {
+      'profile.passwordConfirmation': ["Must match 'password'"],
+    })
+  })
+
+  test('accepts the labels of other fields as an option', async function (assert) {
+    const account: Account = { password: 'secret', passwordConfirmation: 'x' }
+
+    assert.deepEqual(
+      await validateField(
+        account,
+        'passwordConfirmation',
+        { confirmation: { on: 'password' } },
+        { labels: { password: 'Password' } },
+      ),
+      ['Must match Password'],
+    )
+  })
+})
+
+module('Unit | Core | nested constraints', function () {
+  const order = {
+    customer: 'Jane',
+    address: { street: '', zip: 'abc' },
+    items: [
+      { sku: 'A1', quantity: 1 },
+      { sku: null, quantity: 0 },
+      { sku: 'C3', quantity: -1 },
+    ],
+  }
+
+  test('validates the fields of nested objects', async function (assert) {
+    const result = await validate(order, {
+      address: {
+        presence: true,
+        nested: {
+          constraints: {
+            street: { length: { minimum: 1 } },
+            zip: { format: { pattern: /^\d+$/ } },
+          },
+        },
+      },
+    })
+
+    assert.deepEqual(Object.keys(result), ['address.street', 'address.zip'])
+  })
+
+  test('validates every element of arrays', async function (assert) {
+    const result = await validate(order, {
+      items: {
+        each: {
+          nested: {
+            constraints: {
+              sku: { presence: true },
+              quantity: { custom: { with: (_m, _f, v) => positive(v) } },
+            },
+          },
+        },
+      },
+    })
+
+    assert.deepEqual(result, {
+      'items[1].sku': ['Must be present'],
+      'items[1].quantity': ['Must be positive'],
+      'items[2].quantity': ['Must be positive'],
+    })
+  })
+
+  test('validates array elements themselves', async function (assert) {
+    const result = await validate(
+      { tags: ['ok', '', 'fine'] },
+      { tags: { each: { length: { minimum: 1 } } } },
+    )
+
+    assert.deepEqual(Object.keys(result), ['tags[1]'])
+  })
+
+  test('skips absent values', async function (assert) {
+    const result = await validate(
+      { address: null, items: undefined },
+      {
+        address: { nested: { constraints: { zip: { presence: true } } } },
+        items: { each: { presence: true } },
+      },
+    )
+
+    assert.deepEqual(result, {})
+  })
+
+  test('throws when values cannot be descended into', async function (assert) {
+    await assert.rejects(
+      validate(
+        { address: 'somewhere' },
+        { address: { nested: { constraints: {} } } },
+      ),
+      InvalidValueForConstraintError,
+    )
+    await assert.rejects(
+      validate({ items: {} }, { items: { each: { presence: true } } }),
+      InvalidValueForConstraintError,
+    )
+  })
+
+  test('halts on the first nested error when requested', async function (assert) {
+    const result = await validate(
+      order,
+      {
+        items: {
+          each: {
+            nested: {
+              constraints: {
+                sku: { presence: true },
+                quantity: { custom: { with: (_m, _f, v) => positive(v) } },
+              },
+            },
+          },
+        },
+        customer: { absence: true },
+      },
+      { haltBy: 'first-error' },
+    )
+
+    assert.deepEqual(Object.keys(result), ['items[1].sku'])
+  })
+
+  test('halts on the first error of each nested field when requested', async function (assert) {
+    const result = await validate(
+      order,
+      {
+        address: {
+          nested: {
+            constraints: {
+              zip: {
+                format: { pattern: /^\d+$/ },
+                length: { minimum: 5 },
+              },
+            },
+          },
+        },
+        customer: { absence: true },
+      },
+      { haltBy: 'first-field-error' },
+    )
+
+    assert.deepEqual(Object.keys(result), ['address.zip', 'customer'])
+    assert.equal(result['address.zip']?.length, 1)
+  })
+
+  test('validateField ignores structural constraints', async function (assert) {
+    const errors = await validateField(order, 'address', {
+      presence: true,
+      nested: { constraints: { zip: { presence: true } } },
+    })
+
+    assert.deepEqual(errors, [])
+  })
+})
+
+function positive(value: unknown) {
+  if (typeof value !== 'number' || value <= 0) return 'Must be positive'
+}
+
+module('Unit | Core | registries', function () {
+  test('uses constraints registered on a custom registry', async function (assert) {
+    const registry = defaultRegistry
+      .clone()
+      .register('even', validateEven, { checkOptions: checkEvenOptions })
+    const constraints = { count: { even: { strict: true } } }
+
+    assert.deepEqual(
+      await validate({ count: 2 }, constraints, { registry }),
+      {},
+    )
+    assert.deepEqual(await validate({ count: 3 }, constraints, { registry }), {
+      count: ['Must be even'],
+    })
+    assert.deepEqual(
+      await validateField({ count: '2' }, 'count', constraints.count, {
+        registry,
+      }),
+      ['Must be a number'],
+    )
+  })
+
+  test('runs the options checker of registered constraints', async function (assert) {
+    const registry = new ConstraintRegistry().register('even', validateEven, {
+      checkOptions: checkEvenOptions,
+    })
+
+    await assert.rejects(
+      // @ts-expect-error: strictness is omitted on purpose
+      validate({ count: 2 }, { count: { even: {} } }, { registry }),
+      RequiredOptionMissingError,
+    )
+  })
+
+  test('custom registries do not leak into the global one', async function (assert) {
+    new ConstraintRegistry().register('even', validateEven)
+
+    await assert.rejects(
+      validate({ count: 2 }, { count: { even: { strict: false } } }),
+      UnknownConstraintError,
+    )
+  })
+
+  test('built-ins can be overridden and unregistered', async function (assert) {
+    const registry = defaultRegistry
+      .clone()
+      .register('presence', () => 'Overridden')
+
+    assert.deepEqual(
+      await validate({ name: 'a' }, { name: { presence: {} } }, { registry }),
+      { name: ['Overridden'] },
+    )
+
+    registry.unregister('presence')
+
+    await assert.rejects(
+      validate({ name: 'a' }, { name: { presence: {} } }, { registry }),
+      UnknownConstraintError,
+    )
+  })
+})
+
+module('Unit | Core | constraint order and dependencies', function () {
+  test('applies ordered constraints in array order', async function (assert) {
+    const calls: string[] = []
+
+    const result = await validate(
+      { code: 'x' },
+      {
+        code: [
+          { custom: recorded(calls, 'first', 'First') },
+          { length: { minimum: 2 } },
+          { custom: recorded(calls, 'second', 'Second') },
+        ],
+      },
+    )
+
+    assert.deepEqual(calls, ['first', 'second'])
+    assert.deepEqual(result, {
+      code: ['First', 'Length must be greater than 2', 'Second'],
+    })
+  })
+
+  test('accepts labels and structural constraints in the ordered form', function (assert) {
+    const result = validateSync(
+      { address: {} as { zip?: string } },
+      {
+        address: [
+          { label: 'Address', presence: true },
+          { nested: { constraints: { zip: [{ presence: true }] } } },
+        ],
+      },
+    )
+
+    assert.deepEqual(result, { 'address.zip': ['Must be present'] })
+  })
+
+  test('skips constraints whose dependencies failed', async function (assert) {
+    const calls: string[] = []
+    const constraints = [
+      { presence: true },
+      {
+        custom: {
+          ...recorded(calls, 'available'),
+          dependsOn: ['presence'],
+        },
+      },
+    ] as const
+
+    assert.deepEqual(
+      await validateField({ name: undefined }, 'name', constraints),
+      ['Must be present'],
+    )
+    assert.deepEqual(calls, [])
+
+    assert.deepEqual(
+      await validateField({ name: 'jane' }, 'name', constraints),
+      [],
+    )
+    assert.deepEqual(calls, ['available'])
+  })
+
+  test('skips constraints depending on skipped ones', async function (assert) {
+    const calls: string[] = []
+
+    await validateField({ name: 'x' }, 'name', [
+      { length: { minimum: 2 } },
+      { format: { pattern: /^x$/, dependsOn: ['length'] } },
+      { custom: { ...recorded(calls, 'last'), dependsOn: ['format'] } },
+    ])
+
+    assert.deepEqual(calls, [])
+  })
+
+  test('skips later constraints once a bailing one fails', async function (assert) {
+    const calls: string[] = []
+
+    const errors = await validateField({ name: '' }, 'name', {
+      custom: recorded(calls, 'independent', 'Independent'),
+      length: { minimum: 2, bail: true },
+      format: { pattern: /^x$/ },
+    })
+
+    assert.deepEqual(errors, ['Independent', 'Length must be greater than 2'])
+  })
+
+  test('waits for dependencies when applying constraints at the same time', async function (assert) {
+    for (const execution of ['parallel', { concurrency: 1 }] as const) {
+      const calls: string[] = []
+
+      const errors = await validateField(
+        { name: 'taken' },
+        'name',
+        [
+          {
+            custom: {
+              with: async () => {
+                await new Promise((resolve) => setTimeout(resolve, 5))
+                calls.push('available')
+                return 'Taken'
+              },
+            },
+          },
+          {
+            custom: {
+              ...recorded(calls, 'dependent', 'Dependent'),
+              dependsOn: ['custom'],
+            },
+          },
+          { presence: { bail: true } },
+          { custom: recorded(calls, 'after bail', 'After bail') },
+        ],
+        { execution },
+      )
+
+      assert.deepEqual(errors, ['Taken', 'After bail'])
+      assert.deepEqual(calls.sort(), ['after bail', 'available'])
+    }
+  })
+
+  test('dependencies must be applied before their dependents', async function (assert) {
+    const constraints = {
+      format: { pattern: /^x$/, dependsOn: ['presence'] },
+      presence: true,
+    } as const
+
+    await assert.rejects(
+      validateField({ name: 'x' }, 'name', constraints),
+      UnknownConstraintError,
+    )
+    assert.throws(
+      () => validateFieldSync({ name: 'x' }, 'name', constraints),
+      /Unknown constraint presence in the dependencies of format/,
+    )
+  })
+
+  test('validateSync honors dependencies and bailing', function (assert) {
+    const calls: string[] = []
+
+    const result = validateSync(
+      { name: undefined, email: 'nope' },
+      {
+        name: [
+          { presence: true },
+          { custom: { ...recorded(calls, 'name'), dependsOn: ['presence'] } },
+        ],
+        email: [
+          { email: { bail: true } },
+          { custom: recorded(calls, 'email') },
+        ],
+      },
+    )
+
+    assert.deepEqual(calls, [])
+    assert.deepEqual(result, {
+      name: ['Must be present'],
+      email: ['Must be a valid email address'],
+    })
+  })
+})
+
+module('Unit | Core | conditions', function () {
+  type Customer = {
+    country: string
+    hasCompany?: boolean
+    cpf?: string
+    taxId?: string
+    company?: { name?: string }
+  }
+
+  test('unless skips the constraint when it returns true', async function (assert) {
+    const constraints: ModelConstraints<Customer> = {
+      cpf: { presence: { unless: (_value, model) => model.country !== 'BR' } },
+    }
+
+    assert.deepEqual(await validate({ country: 'BR' }, constraints), {
+      cpf: ['Must be present'],
+    })
+    assert.deepEqual(await validate({ country: 'PT' }, constraints), {})
+  })
+
+  test('unless may return a promise', async function (assert) {
+    const errors = await validateField({ name: '' }, 'name', {
+      presence: { unless: () => Promise.resolve(true) },
+      length: { minimum: 1, unless: () => Promise.resolve(false) },
+    })
+
+    assert.deepEqual(errors, ['Length must be greater than 1'])
+  })
+
+  test('when applies the constraint if another field has a value', async function (assert) {
+    const constraints: ModelConstraints<Customer> = {
+      cpf: { presence: { when: { field: 'country', is: 'BR' } } },
+    }
+
+    assert.deepEqual(await validate({ country: 'BR' }, constraints), {
+      cpf: ['Must be present'],
+    })
+    assert.deepEqual(await validate({ country: 'PT' }, constraints), {})
+  })
+
+  test('when applies the constraint if another field is truthy or falsy', function (assert) {
+    const constraints: ModelConstraints<Customer> = {
+      taxId: { presence: { when: { field: 'hasCompany', truthy: true } } },
+      cpf: { presence: { when: { field: 'hasCompany', truthy: false } } },
+    }
+
+    assert.deepEqual(validateSync({ country: 'BR' }, constraints), {
+      cpf: ['Must be present'],
+    })
+    assert.deepEqual(
+      validateSync({ country: 'BR', hasCompany: true }, constraints),
+      { taxId: ['Must be present'] },
+    )
+  })
+
+  test('every condition must hold', function (assert) {
+    const constraints: ModelConstraints<Customer> = {
+      taxId: {
+        presence: {
+          when: [
+            { field: 'country', is: 'BR' },
+            { field: 'hasCompany', truthy: true },
+          ],
+        },
+      },
+    }
+
+    assert.deepEqual(
+      validateSync({ country: 'PT', hasCompany: true }, constraints),
+      {},
+    )
+    assert.deepEqual(
+      validateSync({ country: 'BR', hasCompany: true }, constraints),
+      { taxId: ['Must be present'] },
+    )
+  })
+
+  test('when is checked before if and unless', async function (assert) {
+    let calls = 0
+    const count = () => {
+      calls++
+      return true
+    }
+
+    await validateField({ country: 'PT', cpf: '' }, 'cpf', {
+      presence: { when: { field: 'country', is: 'BR' }, if: count },
+      length: {
+        minimum: 1,
+        when: { field: 'country', is: 'BR' },
+        unless: count,
+      },
+    })
+
+    assert.equal(calls, 0)
+  })
+
+  test('when applies one condition to a block of fields', async function (assert) {
+    const constraints: ModelConstraints<Customer> = {
+      country: { presence: true },
+      ...when<Customer>(
+        { field: 'country', is: 'BR' },
+        {
+          cpf: { presence: true, length: { minimum: 11 } },
+          company: { nested: { constraints: { name: { presence: true } } } },
+        },
+      ),
+    }
+
+    assert.deepEqual(
+      await validate({ country: 'BR', cpf: '123', company: {} }, constraints),
+      {
+        cpf: ['Length must be greater than 11'],
+        'company.name': ['Must be present'],
+      },
+    )
+    assert.deepEqual(
+      await validate({ country: 'PT', cpf: '123', company: {} }, constraints),
+      {},
+    )
+    assert.deepEqual(
+      validateSync({ country: 'PT', cpf: '123', company: {} }, constraints),
+      {},
+    )
+  })
+
+  test("block conditions add up with the field's own", function (assert) {
+    const constraints: ModelConstraints<Customer> = {
+      ...when<Customer>(
+        { field: 'country', is: 'BR' },
+        {
+          taxId: [
+            { when: { field: 'hasCompany', truthy: true } },
+            { presence: true },
+          ],
+        },
+      ),
+    }
+
+    assert.deepEqual(validateSync({ country: 'BR' }, constraints), {})
+    assert.deepEqual(
+      validateSync({ country: 'PT', hasCompany: true }, constraints),
+      {},
+    )
+    assert.deepEqual(
+      validateSync({ country: 'BR', hasCompany: true }, constraints),
+      { taxId: ['Must be present'] },
+    )
+  })
+
+  test('validateField honors the conditions of the field', async function (assert) {
+    const errors = await validateField({ country: 'PT', cpf: '' }, 'cpf', {
+      when: { field: 'country', is: 'BR' },
+      presence: true,
+    })
+
+    assert.deepEqual(errors, [])
+  })
+
+  test('validateSync throws when unless returns a promise', function (assert) {
+    assert.throws(
+      () =>
+        validateSync(
+          { name: 'a' },
+          { name: { presence: { unless: () => Promise.resolve(false) } } },
+        ),
+      /condition of presence on name returned a promise/,
+    )
+  })
+})
+
+module('Unit | Core | validation contexts', function () {
+  type Account = { email?: string; password?: string; title?: string }
+
+  const constraints: ModelConstraints<Account> = {
+    email: { presence: true },
+    password: { presence: { contexts: ['create'] } },
+    title: { presence: { groups: ['publish'] } },
+  }
+
+  test('applies untagged constraints and the ones of the context', async function (assert) {
+    assert.deepEqual(await validate({}, constraints, { context: 'create' }), {
+      email: ['Must be present'],
+      password: ['Must be present'],
+    })
+    assert.deepEqual(await validate({}, constraints, { context: 'update' }), {
+      email: ['Must be present'],
+    })
+  })
+
+  test('skips tagged constraints without a context', async function (assert) {
+    assert.deepEqual(await validate({}, constraints), {
+      email: ['Must be present'],
+    })
+  })
+
+  test('matches groups against the contexts of the run', function (assert) {
+    assert.deepEqual(
+      validateSync({ email: 'jane@example.com' }, constraints, {
+        context: ['create', 'publish'],
+      }),
+      { password: ['Must be present'], title: ['Must be present'] },
+    )
+  })
+
+  test('applies to nested fields and single fields', async function (assert) {
+    const order = { address: { zip: undefined } }
+    const nested: ModelConstraints<typeof order> = {
+      address: {
+        nested: {
+          constraints: { zip: { presence: { contexts: ['checkout'] } } },
+        },
+      },
+    }
+
+    assert.deepEqual(await validate(order, nested, { context: 'cart' }), {})
+    assert.deepEqual(await validate(order, nested, { context: 'checkout' }), {
+      'address.zip': ['Must be present'],
+    })
+    assert.deepEqual(
+      await validateField(
+        { password: undefined },
+        'password',
+        constraints.password!,
+        {
+          context: 'update',
+        },
+      ),
+      [],
+    )
+    assert.deepEqual(
+      validateFieldSync(
+        { password: undefined },
+        'password',
+        constraints.password!,
+        {
+          context: 'create',
+        },
+      ),
+      ['Must be present'],
+    )
+  })
+
+  test('tags constraints naming another field', function (assert) {
+    const passwords = { password: 'secret', passwordConfirmation: 'other' }
+    const confirmed: ModelConstraints<typeof passwords> = {
+      passwordConfirmation: {
+        confirmation: { on: 'password', contexts: ['signup'] },
+      },
+    }
+
+    assert.deepEqual(validateSync(passwords, confirmed), {})
+    assert.deepEqual(
+      validateSync(passwords, confirmed, { context: 'signup' }),
+      { passwordConfirmation: ["Must match 'password'"] },
+    )
+  })
+
+  test('exposes the contexts to validators', async function (assert) {
+    let seen: readonly string[] | undefined
+
+    await validateField(
+      { name: 'a' },
+      'name',
+      {
+        custom: {
+          with: (_model, _field, _value, _options, { contexts }) => {
+            seen = contexts
+          },
+        },
+      },
+      { context: 'draft' },
+    )
+
+    assert.deepEqual(seen, ['draft'])
+  })
+})
+
+module('Unit | Core | severity', function () {
+  type Account = { email?: string; password?: string }
+
+  const constraints: ModelConstraints<Account> = {
+    email: {
+      presence: true,
+      format: { pattern: /\.com$/, severity: 'warning', allowBlank: true },
+    },
+    password: {
+      length: { minimum: 12, severity: 'warning' },
+      format: { pattern: /\d/, severity: 'info', message: 'Add a digit' },
+    },
+  }
+  const account = { email: 'jane@example.cmo', password: 'secret' }
+
+  test('drops warnings and info by default', async function (assert) {
+    assert.deepEqual(await validate(account, constraints), {})
+    assert.deepEqual(validateSync(account, constraints), {})
+    assert.deepEqual(
+      await validateField(account, 'password', constraints.password!),
+      [],
+    )
+    assert.deepEqual(await validate({ password: 'secret' }, constraints), {
+      email: ['Must be present'],
+    })
+  })
+
+  test('groups failures by severity', async function (assert) {
+    const expected = {
+      error: {},
+      warning: {
+        email: ['Must have a valid format'],
+        password: ['Length must be greater than 12'],
+      },
+      info: { password: ['Add a digit'] },
+    }
+
+    assert.deepEqual(
+      await validate(account, constraints, { bySeverity: true }),
+      expected,
+    )
+    assert.deepEqual(
+      validateSync(account, constraints, { bySeverity: true }),
+      expected,
+    )
+  })
+
+  test('groups the failures of a field by severity', async function (assert) {
+    const expected = {
+      error: [],
+      warning: ['Length must be greater than 12'],
+      info: ['Add a digit'],
+    }
+
+    assert.deepEqual(
+      await validateField(account, 'password', constraints.password!, {
+        bySeverity: true,
+      }),
+      expected,
+    )
+    assert.deepEqual(
+      validateFieldSync(account, 'password', constraints.password!, {
+        bySeverity: true,
+      }),
+      expected,
+    )
+    assert.deepEqual(
+      validateFieldSync(account, 'password', constraints.password!),
+      [],
+    )
+  })
+
+  test('reports the severity in error objects', async function (assert) {
+    const result = await validateField(
+      { name: 'a' },
+      'name',
+      {
+        length: { minimum: 3, severity: 'warning' },
+        custom: {
+          with: (_model, field, value) => ({
+            constraint: 'custom',
+            field,
+            value,
+            key: 'custom',
+            options: {
+              constraint: 'custom',
+              model: {},
+              field,
+              value,
+              label: String(field),
+            },
+            message: 'Unusual',
+          }),
+          severity: 'info',
+        },
+      },
+      { output: 'errors', bySeverity: true },
+    )
+
+    assert.deepEqual(
+      [...result.warning, ...result.info].map(({ severity }) => severity),
+      ['warning', 'info'],
+    )
+  })
+
+  test('only errors halt validation', async function (assert) {
+    const calls: string[] = []
+
+    const result = await validate(
+      { name: 'a', email: undefined },
+      {
+        name: {
+          length: { minimum: 3, severity: 'warning', bail: true },
+          custom: recorded(calls, 'name'),
+        },
+        email: { presence: true, custom: recorded(calls, 'email') },
+      },
+      { haltBy: 'first-error', bySeverity: true },
+    )
+
+    assert.deepEqual(calls, ['name'])
+    assert.deepEqual(result, {
+      error: { email: ['Must be present'] },
+      warning: { name: ['Length must be greater than 3'] },
+      info: {},
+    })
+  })
+
+  test('warnings do not block dependent constraints', function (assert) {
+    const calls: string[] = []
+
+    validateFieldSync({ name: 'a' }, 'name', [
+      { length: { minimum: 3, severity: 'warning' } },
+      { custom: { ...recorded(calls, 'name'), dependsOn: ['length'] } },
+    ])
+
+    assert.deepEqual(calls, ['name'])
+  })
+})
+
+module('Unit | Core | execution', function () {
+  /**
+   * Builds custom constraints that resolve after the given delay, keeping
+   * track of how many run at the same time
+   */
+  function buildSlowConstraints(delays: Record<string, number>) {
+    const stats = { running: 0, maxRunning: 0, started: [] as string[] }
+    const constraints = Object.fromEntries(
+      Object.entries(delays).map(([field, delay]) => [
+        field,
+        {
+          custom: {
+            with: async (_model: Model, validatedField: Field) => {
+              stats.started.push(String(validatedField))
+              stats.maxRunning = Math.max(stats.maxRunning, ++stats.running)
+              await new Promise((resolve) => setTimeout(resolve, delay))
+              stats.running--
+              return `${String(validatedField)} failed`
+            },
+          },
+        },
+      ]),
+    )
+    return { stats, constraints }
+  }
+
+  test('runs fields one after another by default', async function (assert) {
+    const { stats, constraints } = buildSlowConstraints({ a: 5, b: 1 })
+
+    await validate({}, constraints)
+
+    assert.equal(stats.maxRunning, 1)
+  })
+
+  test('runs fields at the same time in parallel', async function (assert) {
+    const { stats, constraints } = buildSlowConstraints({ a: 5, b: 1, c: 1 })
+
+    const result = await validate({}, constraints, { execution: 'parallel' })
+
+    assert.equal(stats.maxRunning, 3)
+    assert.deepEqual(Object.keys(result), ['a', 'b', 'c'])
+  })
+
+  test('limits how many constraints run at the same time', async function (assert) {
+    const { stats, constraints } = buildSlowConstraints({
+      a: 3,
+      b: 1,
+      c: 2,
+      d: 1,
+      e: 1,
+    })
+
+    const result = await validate({}, constraints, {
+      execution: { concurrency: 2 },
+    })
+
+    assert.equal(stats.maxRunning, 2)
+    assert.deepEqual(Object.keys(result), ['a', 'b', 'c', 'd', 'e'])
+  })
+
+  test('runs constraints of a field at the same time', async function (assert) {
+    const errors = await validateField(
+      { name: 'a' },
+      'name',
+      {
+        custom: {
+          with: () =>
+            new Promise((resolve) => setTimeout(() => resolve('Taken'), 5)),
+        },
+        length: { minimum: 2 },
+      },
+      { execution: 'parallel' },
+    )
+
+    assert.deepEqual(errors, ['Taken', 'Length must be greater than 2'])
+  })
+
+  test('reports nested errors in declaration order', async function (assert) {
+    const slow = {
+      with: (_model: Model, _field: Field, value: unknown) =>
+        new Promise<string>((resolve) =>
+          setTimeout(() => resolve('Invalid'), Number(value)),
+        ),
+    }
+
+    const result = await validate(
+      { items: [6, 1, 3] },
+      { items: { each: { custom: slow } } },
+      { execution: 'parallel' },
+    )
+
+    assert.deepEqual(Object.keys(result), ['items[0]', 'items[1]', 'items[2]'])
+  })
+
+  test('halts at the first error in declaration order', async function (assert) {
+    const { constraints } = buildSlowConstraints({ a: 5, b: 1 })
+
+    assert.deepEqual(
+      await validate({}, constraints, {
+        execution: 'parallel',
+        haltBy: 'first-error',
+      }),
+      { a: ['a failed'] },
+    )
+  })
+
+  test('ignores fields failing after halting', async function (assert) {
+    for (const execution of ['parallel', { concurrency: 2 }] as const) {
+      assert.deepEqual(
+        await validate(
+          { a: null, b: 5 },
+          { a: { presence: true }, b: { email: true } },
+          { execution, haltBy: 'first-error' },
+        ),
+        { a: ['Must be present'] },
+      )
+    }
+  })
+
+  test('cancels fields after halting', async function (assert) {
+    let signal: AbortSignal | undefined
+
+    await validate(
+      {},
+      {
+        a: { custom: { with: () => 'a failed' } },
+        b: {
+          custom: {
+            with: (_model, _field, _value, _options, context) => {
+              signal = context.signal
+              return new Promise<void>((resolve) => setTimeout(resolve, 5))
+            },
+          },
+        },
+      },
+      { execution: 'parallel', haltBy: 'first-error' },
+    )
+
+    assert.true(signal?.aborted)
+  })
+
+  test('does not start fields after halting sequentially', async function (assert) {
+    const { stats, constraints } = buildSlowConstraints({ a: 1, b: 1 })
+
+    await validate({}, constraints, { haltBy: 'first-error' })
+
+    assert.deepEqual(stats.started, ['a'])
+  })
+
+  test('rejects invalid concurrency limits', async function (assert) {
+    await assert.rejects(
+      validate({}, {}, { execution: { concurrency: 0 } }),
+      RangeError,
+    )
+  })
+})
+
+module('Unit | Core | cancellation and timeouts', function () {
+  test('passes the signal to conditions and custom validators', async function (assert) {
+    const controller = new AbortController()
+    const signals: (AbortSignal | undefined)[] = []
+
+    await validate(
+      { name: 'a' },
+      {
+        name: {
+          custom: {
+            if: (_value, _model, _field, { signal }) => {
+              signals.push(signal)
+              return true
+            },
+            with: (_model, _field, _value, _options, { signal }) => {
+              signals.push(signal)
+            },
+          },
+        },
+      },
+      { signal: controller.signal },
+    )
+
+    assert.deepEqual(signals, [controller.signal, controller.signal])
+  })
+
+  test('rejects without validating when already aborted', async function (assert) {
+    const controller = new AbortController()
+    let calls = 0
+
+    controller.abort(new Error('Left the route'))
+
+    await assert.rejects(
+      validateField(
+        { name: 'a' },
+        'name',
+        { custom: { with: () => void calls++ } },
+        { signal: controller.signal },
+      ),
+      /Left the route/,
+    )
+    assert.equal(calls, 0)
+  })
+
+  test('stops applying constraints once aborted', async function (assert) {
+    const controller = new AbortController()
+    const started: string[] = []
+
+    await assert.rejects(
+      validate(
+        {},
+        {
+          first: {
+            custom: {
+              with: () => {
+                started.push('first')
+                controller.abort()
+              },
+            },
+          },
+          second: { custom: { with: () => void started.push('second') } },
+        },
+        { signal: controller.signal },
+      ),
+    )
+    assert.deepEqual(started, ['first'])
+  })
+
+  test('fails constraints that take longer than their timeout', async function (assert) {
+    const [error] = await validateField(
+      { name: 'a' },
+      'name',
+      {
+        custom: {
+          with: () => new Promise<void>(() => {}),
+          timeout: 5,
+          message: 'Already taken',
+        },
+      },
+      { output: 'errors' },
+    )
+
+    assert.equal(error?.constraint, 'timeout')
+    assert.equal(error?.key, 'validation.timeout')
+    assert.equal(error?.message, 'Took too long to validate')
+    assert.equal(error?.options.timedOut, 'custom')
+    assert.equal(error?.options.timeout, 5)
+  })
+
+  test('reports constraints settling within their timeout as usual', async function (assert) {
+    assert.deepEqual(
+      await validateField({ name: 'a' }, 'name', {
+        custom: { with: () => Promise.resolve('Taken'), timeout: 50 },
+      }),
+      ['Taken'],
+    )
+  })
+})
+
+module('Unit | Core | synchronous validation', function () {
+  test('validateFieldSync returns errors without a promise', function (assert) {
+    assert.deepEqual(
+      validateFieldSync({ name: 'a' }, 'name', {
+        presence: true,
+        length: { minimum: 2 },
+        format: { pattern: /^[A-Z]/, message: 'Must be capitalised' },
+      }),
+      ['Length must be greater than 2', 'Must be capitalised'],
+    )
+  })
+
+  test('validateFieldSync halts on the first error when requested', function (assert) {
+    assert.deepEqual(
+      validateFieldSync(
+        { name: 'a' },
+        'name',
+        { length: { minimum: 2 }, format: { pattern: /^[A-Z]/ } },
+        { haltBy: 'first-error' },
+      ),
+      ['Length must be greater than 2'],
+    )
+  })
+
+  test('validateSync matches validate', async function (assert) {
+    const model = {
+      name: 'a',
+      address: { zip: undefined },
+      items: [{ quantity: 1 }, { quantity: undefined }],
+    }
+    const constraints: ModelConstraints<typeof model> = {
+      name: { length: { minimum: 2 } },
+      address: { nested: { constraints: { zip: { presence: true } } } },
+      items: {
+        each: { nested: { constraints: { quantity: { presence: true } } } },
+      },
+    }
+
+    for (const haltBy of [
+      'never',
+      'first-error',
+      'first-field-error',
+    ] as const) {
+      assert.deepEqual(
+        validateSync(model, constraints, { haltBy, output: 'errors' }),
+        await validate(model, constraints, { haltBy, output: 'errors' }),
+        haltBy,
+      )
+    }
+  })
+
+  test('throws when a condition returns a promise', function (assert) {
+    assert.throws(
+      () =>
+        validateSync(
+          { name: 'a' },
+          { name: { presence: { if: () => Promise.resolve(true) } } },
+        ),
+      AsynchronousConstraintError,
+    )
+  })
+
+  test('throws when a custom validator returns a promise', function (assert) {
+    assert.throws(
+      () =>
+        validateFieldSync({ name: 'a' }, 'name', {
+          custom: { with: () => Promise.resolve('Taken') },
+        }),
+      /validator of custom on name returned a promise/,
+    )
+  })
+
+  test('handles the rejection of the promises it drops', function (assert) {
+    let handled = false
+    const rejecting = Promise.reject(new Error('Unavailable'))
+    const then = rejecting.then.bind(rejecting)
+    rejecting.then = (onFulfilled, onRejected) => {
+      handled = typeof onRejected === 'function'
+      return then(onFulfilled, onRejected)
+    }
+
+    assert.throws(
+      () =>
+        validateFieldSync({ name: 'a' }, 'name', {
+          custom: { with: () => rejecting },
+        }),
+      AsynchronousConstraintError,
+    )
+    assert.true(handled)
+  })
+})
+
+module('Unit | Core | allowed values', function () {
+  /**
+   * Minimal usable options for every built-in constraint
+   */
+  const BUILTIN_OPTIONS = {
+    presence: {},
+    absence: {},
+    type: { type: 'string' },
+    instance: { Constructor: Date },
+    length: { minimum: 2 },
+    numericality: {},
+    date: {},
+    email: {},
+    format: { pattern: /^a/ },
+    confirmation: { on: 'other' },
+    compare: { on: 'other', operator: 'eq' },
+    inclusion: { in: ['a'] },
+    exclusion: { from: [null, undefined, '', ' ', []] },
+    uuid: {},
+    custom: { with: () => 'Invalid' },
+  } satisfies {
+    [C in Exclude<keyof ConstraintOptionsMap, 'even'>]: ConstraintOptionsMap[C]
+  }
+
+  const CASES: [option: keyof ConstraintOptions, values: unknown[]][] = [
+    ['allowNull', [null]],
+    ['allowUndefined', [undefined]],
+    ['allowBlank', [null, undefined, '', '  ', []]],
+  ]
+
+  for (const [constraint, options] of Object.entries(BUILTIN_OPTIONS)) {
+    for (const [option, values] of CASES) {
+      test(`${constraint} is skipped by ${option}`, function (assert) {
+        for (const value of values) {
+          assert.deepEqual(
+            validateFieldSync({ field: value }, 'field', {
+              [constraint]: { ...options, [option]: true },
+            }),
+            [],
+            JSON.stringify(value),
+          )
+        }
+      })
+    }
+  }
+
+  test('only skips the allowed values', async function (assert) {
+    assert.deepEqual(
+      await validateField({ name: ' ' }, 'name', {
+        length: { minimum: 2, allowNull: true, allowUndefined: true },
+      }),
+      ['Length must be greater than 2'],
+    )
+
+    await assert.rejects(
+      validateField({ email: undefined }, 'email', {
+        email: { allowNull: true },
+      }),
+      InvalidValueForConstraintError,
+    )
+  })
+
+  test('skips constraints before evaluating conditions', async function (assert) {
+    let evaluated = false
+
+    await validateField({ email: null }, 'email', {
+      email: {
+        allowNull: true,
+        if: () => {
+          evaluated = true
+          return true
+        },
+      },
+    })
+
+    assert.false(evaluated)
+  })
+})
+
+module('Unit | Core | invalid values', function () {
+  const model = { email: 3, name: undefined, address: 'Main St.' }
+  const constraints = {
+    email: { email: true },
+    name: { presence: true },
+    address: { nested: { constraints: { zip: { presence: true } } } },
+  } as const
+
+  test('rejects the validation by default', async function (assert) {
+    await assert.rejects(
+      validate(model, constraints),
+      InvalidValueForConstraintError,
+    )
+  })
+
+  test('fails constraints that cannot be applied when requested', async function (assert) {
+    const errors = await validate(model, constraints, {
+      onInvalidValue: 'fail',
+      output: 'errors',
+    })
+
+    assert.deepEqual(Object.keys(errors), ['email', 'name', 'address'])
+    assert.equal(errors.email?.[0]?.constraint, 'invalidValue')
+    assert.equal(errors.email?.[0]?.key, 'validation.invalidValue')
+    assert.equal(errors.email?.[0]?.message, 'Must be a string')
+    assert.equal(errors.email?.[0]?.options.invalidFor, 'email')
+    assert.equal(errors.address?.[0]?.options.invalidFor, 'nested')
+    assert.equal(errors.name?.[0]?.constraint, 'presence')
+  })
+
+  test('skips constraints that cannot be applied when requested', async function (assert) {
+    assert.deepEqual(
+      await validate(model, constraints, { onInvalidValue: 'skip' }),
+      { name: ['Must be present'] },
+    )
+    assert.deepEqual(
+      validateSync(model, constraints, { onInvalidValue: 'skip' }),
+      { name: ['Must be present'] },
+    )
+  })
+
+  test('does not use the constraint message for invalid values', async function (assert) {
+    assert.deepEqual(
+      await validateField(
+        { email: 3 },
+        'email',
+        { email: { message: 'Must be a valid email' } },
+        { onInvalidValue: 'fail' },
+      ),
+      ['Must be a string'],
+    )
+  })
+
+  test('still throws errors other than invalid values', async function (assert) {
+    await assert.rejects(
+      validateField(
+        { name: 'a' },
+        'name',
+        {
+          custom: {
+            with: () => {
+              throw new TypeError('Unexpected')
+            },
+          },
+        },
+        { onInvalidValue: 'skip' },
+      ),
+      TypeError,
+    )
+  })
+})
+
+module('Unit | Core | instance constraint', function () {
+  test('requires a constructor', async function (assert) {
+    await assert.rejects(
+      validate(
+        { when: new Date() },
+        // @ts-expect-error: `Constructor` is required
+        { when: { instance: {} } },
+      ),
+      RequiredOptionMissingError,
+    )
+  })
+
+  test('rejects constructors that are not functions', async function (assert) {
+    for (const Constructor of ['Date', null, [], [Date, 'Number']]) {
+      await assert.rejects(
+        validate(
+          { when: new Date() },
+          // @ts-expect-error: `Constructor` must hold classes
+          { when: { instance: { Constructor } } },
+        ),
+        RequiredOptionMissingError,
+        JSON.stringify(Constructor),
+      )
+    }
+  })
+
+  test('accepts one constructor or an array of them', async function (assert) {
+    assert.deepEqual(
+      await validate(
+        { when: new Date(), amount: '3' },
+        {
+          when: { instance: { Constructor: Date } },
+          amount: { instance: { Constructor: [Number, String] } },
+        },
+      ),
+      { amount: ['Must be an instance of Number or String'] },
+    )
+  })
+})
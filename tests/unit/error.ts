@@ -1,6 +1,15 @@
 import { module, test } from 'qunit'
 import { I18nMockEngine, mockTranslation } from '../utils/i18n-mock.ts'
-import { messageForError } from '#src/error.ts'
+import {
+  messageForError,
+  translateError,
+  validationErrorFor,
+} from '#src/error.ts'
+import {
+  confirmationErrorFor,
+  type LengthConstraintOptions,
+} from '#src/validators.ts'
+import type { I18nHandler } from '#src/common.ts'
 
 const translationEntry = 'I am translated'
 const registry = {
@@ -70,6 +79,7 @@ module('Unit | Error Handling | messageForError', function () {
       field: 'field',
       value: 'value',
       constraint: 'constraint',
+      label: 'field',
     }
 
     const withNoKey = messageForError(
@@ -177,3 +187,186 @@ module('Unit | Error Handling | messageForError', function () {
     assert.equal(withI18nAndUnregisteredKey, defaultMessage)
   })
 })
+
+module('Unit | Error Handling | validationErrorFor', function () {
+  test('describes the failed constraint', function (assert) {
+    const model = { name: 'Test User' }
+    const options: LengthConstraintOptions = { minimum: 10 }
+
+    const error = validationErrorFor(
+      model,
+      'name',
+      'Test User',
+      'length.minimum',
+      'Too short',
+      options,
+    )
+
+    assert.deepEqual(error, {
+      constraint: 'length.minimum',
+      field: 'name',
+      value: 'Test User',
+      key: 'validation.length.minimum',
+      options: {
+        constraint: 'length.minimum',
+        model,
+        field: 'name',
+        value: 'Test User',
+        label: 'name',
+        minimum: 10,
+      },
+      message: 'Too short',
+    })
+  })
+
+  test('resolves the key and message like messageForError', function (assert) {
+    const model = { name: 'Test User' }
+    const options = { i18n: { handler: mockEngine, key: 'anEntry' } }
+
+    const error = validationErrorFor(
+      model,
+      'name',
+      'value',
+      'constraint',
+      'not returned',
+      options,
+    )
+
+    assert.equal(error.key, 'anEntry')
+    assert.equal(
+      error.message,
+      messageForError(
+        model,
+        'name',
+        'value',
+        'constraint',
+        'not returned',
+        options,
+      ),
+    )
+  })
+
+  test('looks translations up under the given prefix', function (assert) {
+    const withPrefix = validationErrorFor(
+      {},
+      'name',
+      'value',
+      'aChild',
+      'not returned',
+      { i18n: { handler: mockEngine, prefix: 'nestedEntry' } },
+    )
+    const withoutPrefix = validationErrorFor(
+      {},
+      'name',
+      'value',
+      'anEntry',
+      'not returned',
+      { i18n: { prefix: '' } },
+    )
+
+    assert.equal(withPrefix.key, 'nestedEntry.aChild')
+    assert.true(withPrefix.message.startsWith('this is a child|'))
+    assert.equal(withoutPrefix.key, 'anEntry')
+  })
+
+  test('flags custom messages', function (assert) {
+    const custom = validationErrorFor({}, 'name', 'value', 'constraint', '', {
+      message: 'Custom',
+    })
+    const translated = validationErrorFor(
+      {},
+      'name',
+      'value',
+      'constraint',
+      '',
+      { i18n: { handler: mockEngine } },
+    )
+
+    assert.true(custom.hasCustomMessage)
+    assert.strictEqual(translated.hasCustomMessage, undefined)
+  })
+})
+
+module('Unit | Error Handling | translateError', function () {
+  test('translates the message again', function (assert) {
+    const error = validationErrorFor(
+      {},
+      'name',
+      'value',
+      'constraint',
+      'Default',
+      {},
+    )
+
+    const translated = translateError(error, mockEngine)
+
+    assert.notEqual(translated, error)
+    assert.equal(
+      translated.message,
+      mockTranslation(translationEntry, error.options),
+    )
+    assert.equal(error.message, 'Default')
+  })
+
+  test('translates labels again along with the message', function (assert) {
+    const translations: Record<string, Record<string, string>> = {
+      en: {
+        'labels.password': 'Password',
+        'labels.confirmation': 'Confirmation',
+        'validation.confirmation': '{label} must match {otherLabel}',
+      },
+      fr: {
+        'labels.password': 'Mot de passe',
+        'labels.confirmation': 'Confirmation',
+        'validation.confirmation': '{label} doit correspondre à {otherLabel}',
+      },
+    }
+    let locale = 'en'
+    const handler: I18nHandler = {
+      exists: (key) => key in translations[locale]!,
+      t: (key, options) =>
+        translations[locale]![key]!.replace(/\{(\w+)\}/g, (_, option) =>
+          String((options as Record<string, unknown>)[option as string]),
+        ),
+    }
+
+    const error = confirmationErrorFor(
+      { password: 'secret', passwordConfirmation: 'other' },
+      'passwordConfirmation',
+      'other',
+      { on: 'password', label: 'labels.confirmation', i18n: { handler } },
+      { labels: { password: 'labels.password' } },
+    )!
+    locale = 'fr'
+    const translated = translateError(error, handler)
+
+    assert.equal(error.message, 'Confirmation must match Password')
+    assert.equal(
+      translated.message,
+      'Confirmation doit correspondre à Mot de passe',
+    )
+    assert.equal(translated.options.otherLabel, 'Mot de passe')
+    assert.deepEqual(translated.labelKeys, {
+      label: 'labels.confirmation',
+      otherLabel: 'labels.password',
+    })
+  })
+
+  test('keeps custom and untranslatable messages', function (assert) {
+    const custom = validationErrorFor({}, 'name', 'value', 'constraint', '', {
+      message: 'Custom',
+    })
+    const unknown = validationErrorFor(
+      {},
+      'name',
+      'value',
+      'unknown',
+      'Default',
+      {},
+    )
+
+    assert.equal(translateError(custom, mockEngine), custom)
+    assert.equal(translateError(unknown, mockEngine), unknown)
+    assert.equal(translateError(unknown, undefined), unknown)
+  })
+})
@@ -0,0 +1,91 @@
+import { module, test } from 'qunit'
+import * as publicApi from '#src/index.ts'
+
+/**
+ * Every runtime binding the package entry point is expected to expose.
+ * Adding to or removing from the public API must be reflected here.
+ */
+const PUBLIC_EXPORTS = [
+  'AsynchronousConstraintError',
+  'CompiledConstraints',
+  'ConstraintRegistry',
+  'FieldBuilder',
+  'InvalidConstraintsError',
+  'InvalidValueForConstraintError',
+  'PerspectiveService',
+  'RequiredOptionMissingError',
+  'Schema',
+  'UnknownConstraintError',
+  'ValidatedField',
+  'ValidationErrors',
+  'ValidationState',
+  'compileConstraints',
+  'absenceErrorFor',
+  'comparisonErrorFor',
+  'confirmationErrorFor',
+  'createValidator',
+  'dateErrorFor',
+  'defaultRegistry',
+  'emailErrorFor',
+  'errorsFor',
+  'exclusionErrorFor',
+  'field',
+  'formatErrorFor',
+  'inclusionErrorFor',
+  'instanceErrorFor',
+  'lengthErrorFor',
+  'messageForError',
+  'numericalityErrorFor',
+  'presenceErrorFor',
+  'schema',
+  'translateError',
+  'translations',
+  'typeErrorFor',
+  'uuidErrorFor',
+  'validate',
+  'validateAbsence',
+  'validateComparison',
+  'validateConfirmation',
+  'validateCustom',
+  'validateDate',
+  'validateEmail',
+  'validateExclusion',
+  'validateField',
+  'validateFieldSync',
+  'validateFormat',
+  'validateInclusion',
+  'validateInstance',
+  'validateLength',
+  'validateNumericality',
+  'validatePresence',
+  'validateSync',
+  'validateType',
+  'validateUUID',
+  'validationErrorFor',
+  'when',
+]
+
+module('Unit | Public API', function () {
+  test('exposes exactly the documented runtime exports', function (assert) {
+    assert.deepEqual(Object.keys(publicApi).sort(), PUBLIC_EXPORTS.sort())
+  })
+
+  test('does not expose internal helpers', function (assert) {
+    const exportedNames: string[] = Object.keys(publicApi)
+
+    for (const internal of [
+      'validateConstraint',
+      'hasLength',
+      'isEmailValid',
+      'isUUIDValid',
+      'TYPE_VALUES',
+      'builtinConstraints',
+      'FieldState',
+    ]) {
+      assert.false(
+        exportedNames.includes(internal),
+        `${internal} must not be exported`,
+      )
+    }
+  })
+})
@@ -0,0 +1,83 @@
+import { module, test } from 'qunit'
+import { ConstraintRegistry, defaultRegistry } from '#src/registry.ts'
+import { presenceErrorFor } from '#src/validators.ts'
+
+module('Unit | Registry | ConstraintRegistry', function () {
+  test('registers and looks up constraints by name', function (assert) {
+    const registry = new ConstraintRegistry()
+    const validator = () => 'Invalid'
+
+    assert.false(registry.has('cpf'))
+    assert.equal(registry.lookup('cpf'), undefined)
+
+    registry.register('cpf', validator)
+
+    assert.true(registry.has('cpf'))
+    assert.equal(registry.lookup('cpf')?.validator, validator)
+  })
+
+  test('stores the options checker alongside the validator', function (assert) {
+    const registry = new ConstraintRegistry()
+    const checkOptions = () => {}
+
+    registry.register('iban', () => {}, { checkOptions })
+
+    assert.equal(registry.lookup('iban')?.checkOptions, checkOptions)
+  })
+
+  test('registering an existing name overrides it', function (assert) {
+    const registry = defaultRegistry.clone()
+    const validator = () => 'Overridden'
+
+    registry.register('presence', validator)
+
+    assert.equal(registry.lookup('presence')?.validator, validator)
+  })
+
+  test('unregisters constraints', function (assert) {
+    const registry = new ConstraintRegistry().register('phone', () => {})
+
+    assert.true(registry.unregister('phone'))
+    assert.false(registry.has('phone'))
+    assert.false(registry.unregister('phone'))
+  })
+
+  test('clones are independent from the original', function (assert) {
+    const registry = defaultRegistry.clone()
+
+    registry.unregister('presence')
+    registry.register('cpf', () => {})
+
+    assert.true(defaultRegistry.has('presence'))
+    assert.false(defaultRegistry.has('cpf'))
+  })
+})
+
+module('Unit | Registry | defaultRegistry', function () {
+  test('contains all built-in constraints', function (assert) {
+    for (const constraint of [
+      'presence',
+      'absence',
+      'type',
+      'instance',
+      'length',
+      'numericality',
+      'date',
+      'email',
+      'format',
+      'confirmation',
+      'compare',
+      'inclusion',
+      'exclusion',
+      'uuid',
+      'custom',
+    ]) {
+      assert.true(defaultRegistry.has(constraint), constraint)
+    }
+
+    assert.equal(
+      defaultRegistry.lookup('presence')?.validator,
+      presenceErrorFor,
+    )
+  })
+})
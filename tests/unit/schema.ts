@@ -0,0 +1,164 @@
+import { module, test } from 'qunit'
+import { validate, validateSync } from '#src/core.ts'
+import {
+  FieldBuilder,
+  Schema,
+  field,
+  schema,
+  type ModelOf,
+} from '#src/schema.ts'
+
+const address = schema({
+  street: field().required().string(),
+  zip: field()
+    .required()
+    .format({ pattern: /^\d{5}$/ }),
+})
+
+const contact = schema({
+  name: field().required().string().length({ maximum: 80 }),
+  email: field().required().string().email(),
+})
+
+module('Unit | Schema | field', function () {
+  test('builds the constraints of a field', function (assert) {
+    const builder = field()
+      .required()
+      .string()
+      .length({ maximum: 80 })
+      .email({ message: 'Invalid' })
+
+    assert.true(builder instanceof FieldBuilder)
+    assert.deepEqual(builder.constraints, {
+      presence: true,
+      type: { type: 'string' },
+      length: { maximum: 80 },
+      email: { message: 'Invalid' },
+    })
+  })
+
+  test('creates a new builder for every constraint', function (assert) {
+    const base = field().required()
+    const refined = base.email()
+
+    assert.deepEqual(base.constraints, { presence: true })
+    assert.deepEqual(refined.constraints, { presence: true, email: true })
+  })
+
+  test('applies registered constraints and settings', function (assert) {
+    const builder = field()
+      .label('Zip code')
+      .when({ field: 'country', is: 'US' })
+      .when({ field: 'shipping', truthy: true })
+      .constraint('inclusion', { in: ['12345'] })
+
+    assert.deepEqual(builder.constraints, {
+      label: 'Zip code',
+      when: [
+        { field: 'country', is: 'US' },
+        { field: 'shipping', truthy: true },
+      ],
+      inclusion: { in: ['12345'] },
+    })
+  })
+
+  test('describes nested fields and array items', function (assert) {
+    const builder = field().nested(address)
+    const items = field().each(field().nested(contact))
+
+    assert.deepEqual(builder.constraints, {
+      nested: { constraints: address.constraints },
+    })
+    assert.deepEqual(items.constraints, {
+      each: { nested: { constraints: contact.constraints } },
+    })
+  })
+
+  test('passes dependsOn and bail as options', function (assert) {
+    const email = field().required({ bail: true }).email()
+    const code = field()
+      .format({ pattern: /^\d+$/ })
+      .length({ minimum: 3, dependsOn: ['format'] })
+
+    assert.deepEqual(
+      validateSync(
+        { email: undefined, code: 'ab' },
+        { email: email.constraints, code: code.constraints },
+      ),
+      {
+        email: ['Must be present'],
+        code: ['Must have a valid format'],
+      },
+    )
+  })
+
+  test('optional skips constraints while the value is undefined', function (assert) {
+    const builder = field().required().length({ minimum: 2 }).optional()
+
+    assert.deepEqual(builder.constraints, {
+      presence: { allowUndefined: true },
+      length: { minimum: 2, allowUndefined: true },
+    })
+  })
+})
+
+module('Unit | Schema | schema', function () {
+  test('produces the constraints consumed by validate', async function (assert) {
+    assert.true(contact instanceof Schema)
+    assert.deepEqual(contact.constraints, {
+      name: {
+        presence: true,
+        type: { type: 'string' },
+        length: { maximum: 80 },
+      },
+      email: { presence: true, type: { type: 'string' }, email: true },
+    })
+    assert.deepEqual(
+      await validate({ name: 'Jane', email: 'jane' }, contact.constraints),
+      { email: ['Must be a valid email address'] },
+    )
+  })
+
+  test('extend adds and replaces fields', function (assert) {
+    const extended = contact.extend({
+      email: field().email({ allowUndefined: true }),
+      address: field().required().nested(address),
+    })
+    const model: ModelOf<typeof extended> = {
+      name: 'Jane',
+      email: undefined,
+      address: { street: 'Main St', zip: '1234' },
+    }
+
+    assert.deepEqual(Object.keys(extended.fields), ['name', 'email', 'address'])
+    assert.deepEqual(validateSync(model, extended.constraints), {
+      'address.zip': ['Must have a valid format'],
+    })
+  })
+
+  test('merge adds the fields of another schema', function (assert) {
+    const merged = contact.merge(address)
+
+    assert.deepEqual(Object.keys(merged.fields), [
+      'name',
+      'email',
+      'street',
+      'zip',
+    ])
+    assert.equal(merged.fields.zip, address.fields.zip)
+  })
+
+  test('pick and omit select fields', function (assert) {
+    assert.deepEqual(Object.keys(contact.pick('email').fields), ['email'])
+    assert.deepEqual(Object.keys(contact.omit('email').fields), ['name'])
+  })
+
+  test('partial makes every field optional', function (assert) {
+    const draft = contact.partial()
+
+    assert.deepEqual(validateSync({}, draft.constraints), {})
+    assert.deepEqual(validateSync({ email: 'jane' }, draft.constraints), {
+      email: ['Must be a valid email address'],
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { module, test } from 'qunit'
+import { setupTest } from 'ember-qunit'
+import { settled } from '@ember/test-helpers'
+import Service from '@ember/service'
+import { destroy } from '@ember/destroyable'
+import type { I18nHandler } from '#src/common.ts'
+import type { OrderedFieldConstraints } from '#src/core.ts'
+
+/**
+ * Mimics the parts of `ember-intl`'s service used for validation
+ */
+class IntlService extends Service implements I18nHandler {
+  locale = 'en'
+  private readonly callbacks = new Set<() => void>()
+
+  private readonly messages: Record<string, Record<string, string>> = {
+    en: { 'validation.presence': 'Required', 'errors.presence': 'Missing' },
+    fr: { 'validation.presence': 'Obligatoire' },
+  }
+
+  exists(key: string) {
+    return key in this.messages[this.locale]!
+  }
+
+  t(key: string) {
+    return this.messages[this.locale]![key]!
+  }
+
+  onLocaleChanged(callback: () => void) {
+    this.callbacks.add(callback)
+    return () => {
+      this.callbacks.delete(callback)
+    }
+  }
+
+  setLocale(locale: string) {
+    this.locale = locale
+    this.callbacks.forEach((callback) => callback())
+  }
+}
+
+type User = { name?: string }
+
+module('Unit | Service | perspective', function (hooks) {
+  setupTest(hooks)
+
+  test('translates with the intl service by default', async function (assert) {
+    this.owner.register('service:intl', IntlService)
+    const perspective = this.owner.lookup('service:perspective')
+
+    const constraints = { name: { presence: true } } as const
+
+    assert.deepEqual(await perspective.validate<User>({}, constraints), {
+      name: ['Required'],
+    })
+    assert.deepEqual(perspective.validateSync<User>({}, constraints), {
+      name: ['Required'],
+    })
+  })
+
+  test('applies the configured handler and prefix', async function (assert) {
+    const perspective = this.owner.lookup('service:perspective')
+    const handler = new IntlService()
+    perspective.i18n = { handler, prefix: 'errors' }
+
+    const [error] = await perspective.validateField(
+      { name: undefined },
+      'name',
+      { presence: true },
+      { output: 'errors' },
+    )
+
+    assert.equal(error?.key, 'errors.presence')
+    assert.equal(error?.message, 'Missing')
+    assert.deepEqual(
+      perspective.validateFieldSync(
+        { name: undefined },
+        'name',
+        { presence: true },
+        { i18n: { prefix: 'validation' } },
+      ),
+      ['Required'],
+    )
+  })
+
+  test('validates fields against ordered constraints', async function (assert) {
+    const perspective = this.owner.lookup('service:perspective')
+    const constraints: OrderedFieldConstraints = [
+      { presence: true },
+      { length: { minimum: 2 } },
+    ]
+
+    assert.deepEqual(
+      await perspective.validateField({ name: 'a' }, 'name', constraints),
+      ['Length must be greater than 2'],
+    )
+    assert.deepEqual(
+      perspective.validateFieldSync({ name: 'a' }, 'name', constraints),
+      ['Length must be greater than 2'],
+    )
+  })
+
+  test('translates validators again when the locale changes', async function (assert) {
+    this.owner.register('service:intl', IntlService)
+    const perspective = this.owner.lookup('service:perspective')
+    const intl = this.owner.lookup('service:intl') as IntlService
+
+    const state = perspective.createValidator<User>(
+      {},
+      { name: { presence: true } },
+    )
+    await state.validate()
+    intl.setLocale('fr')
+
+    assert.deepEqual(state.errorsFor('name'), ['Obligatoire'])
+
+    destroy(state)
+    await settled()
+    intl.setLocale('en')
+
+    assert.deepEqual(state.errorsFor('name'), ['Obligatoire'])
+  })
+
+  test('translates validation results again', async function (assert) {
+    this.owner.register('service:intl', IntlService)
+    const perspective = this.owner.lookup('service:perspective')
+    const intl = this.owner.lookup('service:intl') as IntlService
+
+    const user: User = {}
+    const errors = await perspective.validate(
+      user,
+      { name: { presence: true } },
+      { output: 'errors' },
+    )
+    intl.locale = 'fr'
+
+    assert.deepEqual(
+      perspective.translate(errors).name?.map(({ message }) => message),
+      ['Obligatoire'],
+    )
+  })
+
+  test('notifies locale changes reported manually', function (assert) {
+    const perspective = this.owner.lookup('service:perspective')
+    let calls = 0
+
+    const unsubscribe = perspective.onLocaleChange(() => calls++)
+    perspective.localeChanged()
+    unsubscribe()
+    perspective.localeChanged()
+
+    assert.equal(calls, 1)
+  })
+})
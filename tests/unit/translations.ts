@@ -0,0 +1,154 @@
+import { module, test } from 'qunit'
+import {
+  validate,
+  validateFieldSync,
+  type FieldConstraints,
+  type ModelConstraints,
+} from '#src/core.ts'
+import type { ValidationError } from '#src/common.ts'
+import {
+  translations,
+  type TranslationBundle,
+} from '#src/translations/index.ts'
+
+type Subject = { value: unknown; other: unknown }
+
+/**
+ * Lists, for every key emitted by the built-in constraints, a value and a
+ * constraint failing under that key
+ */
+const FAILURES: [value: unknown, constraints: FieldConstraints][] = [
+  [undefined, { presence: true }],
+  ['x', { absence: true }],
+  [1, { type: { type: 'string' } }],
+  [1, { instance: { Constructor: Date } }],
+  ['x', { length: { minimum: 2, maximum: 4 } }],
+  ['x', { length: { minimum: 2 } }],
+  ['xxx', { length: { maximum: 2 } }],
+  [NaN, { numericality: {} }],
+  [1.5, { numericality: { onlyInteger: true } }],
+  [1, { numericality: { greaterThan: 1 } }],
+  [1, { numericality: { greaterThanOrEqualTo: 2 } }],
+  [1, { numericality: { lessThan: 1 } }],
+  [1, { numericality: { lessThanOrEqualTo: 0 } }],
+  [1, { numericality: { equalTo: 2 } }],
+  [1, { numericality: { otherThan: 1 } }],
+  [2, { numericality: { odd: true } }],
+  [1, { numericality: { even: true } }],
+  [-1, { numericality: { positive: true } }],
+  [1, { numericality: { negative: true } }],
+  ['not a date', { date: {} }],
+  ['2024-02-01', { date: { before: '2024-01-01' } }],
+  ['2024-01-01', { date: { after: '2024-02-01' } }],
+  ['2024-02-01', { date: { onOrBefore: '2024-01-01' } }],
+  ['2024-01-01', { date: { onOrAfter: '2024-02-01' } }],
+  ['x', { email: true }],
+  ['x', { format: { pattern: /y/ } }],
+  ['x', { confirmation: { on: 'other' } }],
+  [1, { compare: { on: 'other', operator: 'eq' } }],
+  [2, { compare: { on: 'other', operator: 'neq' } }],
+  [3, { compare: { on: 'other', operator: 'lt' } }],
+  [3, { compare: { on: 'other', operator: 'lte' } }],
+  [1, { compare: { on: 'other', operator: 'gt' } }],
+  [1, { compare: { on: 'other', operator: 'gte' } }],
+  ['x', { inclusion: { in: ['y'] } }],
+  ['x', { exclusion: { from: ['x'] } }],
+  ['x', { uuid: true }],
+  ['x', { custom: { with: () => 'Is invalid' } }],
+  [1, { email: true }],
+]
+
+/**
+ * Collects the translation keys emitted by every built-in constraint
+ */
+async function emittedKeys() {
+  const keys = new Set<string>()
+  const add = (errors: ValidationError[]) =>
+    errors.forEach(({ key }) => keys.add(key))
+
+  for (const [value, constraints] of FAILURES) {
+    const subject: Subject = { value, other: 2 }
+    add(
+      validateFieldSync(subject, 'value', constraints, {
+        output: 'errors',
+        onInvalidValue: 'fail',
+      }),
+    )
+  }
+
+  const constraints: ModelConstraints<Subject> = {
+    value: { custom: { with: () => new Promise(() => {}), timeout: 1 } },
+  }
+  const result = await validate({ value: 1, other: 2 }, constraints, {
+    output: 'errors',
+  })
+  add(result.value ?? [])
+
+  return [...keys]
+}
+
+/**
+ * Looks a dot-separated key up in a translation bundle
+ */
+function lookUp(bundle: TranslationBundle, key: string) {
+  let entry: string | TranslationBundle | undefined = bundle
+  for (const segment of key.split('.')) {
+    entry = typeof entry === 'object' ? entry[segment] : undefined
+  }
+  return entry
+}
+
+/**
+ * Lists the keys of every message of a translation bundle
+ */
+function keysOf(bundle: TranslationBundle, prefix = ''): string[] {
+  return Object.entries(bundle).flatMap(([segment, entry]) =>
+    typeof entry === 'string'
+      ? [`${prefix}${segment}`]
+      : keysOf(entry, `${prefix}${segment}.`),
+  )
+}
+
+/**
+ * Lists the arguments a message refers to
+ */
+function placeholdersOf(message: string) {
+  return [...message.matchAll(/\{(\w+)/g)].map(([, name]) => name).sort()
+}
+
+module('Unit | Translations', function () {
+  test('cover every key emitted by the built-in constraints', async function (assert) {
+    const keys = await emittedKeys()
+
+    assert.true(keys.includes('validation.exclusion'))
+    assert.true(keys.includes('validation.timeout'))
+    assert.true(keys.includes('validation.invalidValue'))
+
+    for (const [locale, bundle] of Object.entries(translations)) {
+      for (const key of keys) {
+        assert.strictEqual(
+          typeof lookUp(bundle, key),
+          'string',
+          `${locale} translates ${key}`,
+        )
+      }
+    }
+  })
+
+  test('translate the same keys with the same arguments', function (assert) {
+    const { en, ...others } = translations
+    const keys = keysOf(en)
+
+    for (const [locale, bundle] of Object.entries(others)) {
+      assert.deepEqual(keysOf(bundle), keys, `${locale} has the same keys`)
+
+      for (const key of keys) {
+        assert.deepEqual(
+          placeholdersOf(lookUp(bundle, key) as string),
+          placeholdersOf(lookUp(en, key) as string),
+          `${locale} uses the same arguments for ${key}`,
+        )
+      }
+    }
+  })
+})
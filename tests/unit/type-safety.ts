@@ -0,0 +1,184 @@
+import { module, test } from 'qunit'
+import { validate, type ModelConstraints } from '#src/core.ts'
+import type { ValidationError } from '#src/common.ts'
+import { field, schema, type ModelOf } from '#src/schema.ts'
+
+/**
+ * The assertions in this module are mostly checked by the type-checker:
+ * every `@ts-expect-error` directive fails type-checking if the line
+ * below it stops being rejected.
+ */
+
+type User = {
+  name: string
+  email: string
+  age: number
+  address?: { street: string; zip: string }
+  phones: { number: string }[]
+}
+
+const user: User = {
+  name: 'Jane',
+  email: 'jane@example.com',
+  age: 30,
+  phones: [],
+}
+
+module('Unit | Type safety | ModelConstraints', function () {
+  test('accepts well-formed constraints', async function (assert) {
+    const constraints: ModelConstraints<User> = {
+      name: { presence: true, length: { minimum: 3, maximum: 80 } },
+      email: { email: true, format: { pattern: /@/ } },
+      age: { type: { type: 'number' }, inclusion: { in: [30, 31] } },
+    }
+
+    assert.deepEqual(await validate(user, constraints), {})
+  })
+
+  test('rejects unknown field names', function (assert) {
+    const constraints: ModelConstraints<User> = {
+      // @ts-expect-error: `nmae` is not a field of `User`
+      nmae: { presence: true },
+    }
+
+    assert.ok(constraints)
+  })
+
+  test('rejects unknown constraint names', function (assert) {
+    const constraints: ModelConstraints<User> = {
+      // @ts-expect-error: `presense` is not a known constraint
+      name: { presense: true },
+    }
+
+    assert.ok(constraints)
+  })
+
+  test('rejects unknown option keys', function (assert) {
+    const constraints: ModelConstraints<User> = {
+      // @ts-expect-error: `minumum` is not a length option
+      name: { length: { minumum: 3 } },
+    }
+
+    assert.ok(constraints)
+  })
+
+  test('rejects options of the wrong type', function (assert) {
+    const constraints: ModelConstraints<User> = {
+      // @ts-expect-error: `pattern` must be a regular expression
+      name: { format: { pattern: '^a' } },
+    }
+
+    assert.ok(constraints)
+  })
+
+  test('requires mandatory options', function (assert) {
+    const constraints: ModelConstraints<User> = {
+      // @ts-expect-error: `type` requires the expected type name
+      age: { type: true },
+    }
+
+    assert.ok(constraints)
+  })
+
+  test('types nested constraints after the nested value', function (assert) {
+    const constraints: ModelConstraints<User> = {
+      address: {
+        nested: {
+          constraints: {
+            zip: { presence: true },
+            // @ts-expect-error: `zpi` is not a field of the address
+            zpi: { presence: true },
+          },
+        },
+      },
+      phones: {
+        each: {
+          nested: {
+            constraints: {
+              number: { presence: true },
+              // @ts-expect-error: `nubmer` is not a field of the phones
+              nubmer: { presence: true },
+            },
+          },
+        },
+      },
+    }
+
+    assert.ok(constraints)
+  })
+
+  test('validate infers the model shape', async function (assert) {
+    const result = await validate(user, { name: { presence: true } })
+
+    // @ts-expect-error: the result is keyed by the model's fields
+    assert.equal(result.nmae, undefined)
+    assert.equal(result.name, undefined)
+    assert.equal(result['address.zip'], undefined)
+    assert.equal(result['phones[0].number'], undefined)
+
+    // @ts-expect-error: `nmae` is not a field of the validated model
+    await validate(user, { nmae: { presence: true } })
+  })
+
+  test('validate types results after the output format', async function (assert) {
+    const messages = await validate(user, { name: { presence: true } })
+    const errors = await validate(
+      user,
+      { name: { presence: true } },
+      { output: 'errors' },
+    )
+
+    const message: string | undefined = messages.name?.[0]
+    const error: ValidationError | undefined = errors.name?.[0]
+    // @ts-expect-error: messages are not error objects
+    const notAnError: ValidationError | undefined = messages.name?.[0]
+
+    assert.deepEqual(
+      [message, error, notAnError],
+      [undefined, undefined, undefined],
+    )
+  })
+
+  test('validate types results grouped by severity', async function (assert) {
+    const result = await validate(
+      user,
+      { name: { presence: true } },
+      { bySeverity: true },
+    )
+
+    const warning: string | undefined = result.warning.name?.[0]
+    // @ts-expect-error: failures are grouped by severity first
+    assert.equal(result.name, undefined)
+
+    assert.equal(warning, undefined)
+  })
+})
+
+module('Unit | Type safety | schemas', function () {
+  const contact = schema({
+    name: field().required().string(),
+    age: field().number(),
+  })
+
+  test('infers the model from the field builders', function (assert) {
+    const model: ModelOf<typeof contact> = { name: 'Jane', age: 30 }
+    // @ts-expect-error: `name` was narrowed down to a string
+    const wrong: ModelOf<typeof contact> = { name: 1, age: 30 }
+
+    assert.ok([model, wrong])
+  })
+
+  test('rejects options of the wrong type', function (assert) {
+    // @ts-expect-error: `minumum` is not a length option
+    assert.ok(field().length({ minumum: 3 }))
+    // @ts-expect-error: `pattern` must be a regular expression
+    assert.ok(field().format({ pattern: '^a' }))
+  })
+
+  test('rejects unknown fields when composing', function (assert) {
+    // @ts-expect-error: `nmae` is not a field of the schema
+    assert.ok(contact.pick('nmae'))
+    // @ts-expect-error: `nmae` is not a field of the schema
+    assert.ok(contact.omit('nmae'))
+  })
+})
@@ -0,0 +1,301 @@
+import { module, test } from 'qunit'
+import { ValidationState, createValidator } from '#src/validation-state.ts'
+
+type User = {
+  name?: string
+  email: string
+  address: { zip?: string }
+}
+
+function buildUser(): User {
+  return { email: 'jane@example.com', address: {} }
+}
+
+/**
+ * Creates a promise along with the function that resolves it
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((resolvePromise) => {
+    resolve = resolvePromise
+  })
+  return { promise, resolve }
+}
+
+module('Unit | ValidationState', function () {
+  test('createValidator creates a validation state', function (assert) {
+    const user = buildUser()
+    const state = createValidator(user, { name: { presence: true } })
+
+    assert.true(state instanceof ValidationState)
+    assert.equal(state.model, user)
+    assert.true(state.isValid)
+    assert.false(state.isDirty)
+    assert.deepEqual(state.errorsFor('name'), [])
+  })
+
+  test('validateField stores the errors of a field', async function (assert) {
+    const state = createValidator(buildUser(), {
+      name: { presence: true },
+      email: { email: true },
+    })
+
+    const errors = await state.validateField('name')
+
+    assert.deepEqual(errors, ['Must be present'])
+    assert.deepEqual(state.errorsFor('name'), ['Must be present'])
+    assert.deepEqual(state.errors, { name: ['Must be present'] })
+    assert.false(state.isValid)
+    assert.false(state.isFieldDirty('name'))
+  })
+
+  test('set updates the model and revalidates the field', async function (assert) {
+    const user = buildUser()
+    const state = createValidator(user, { name: { presence: true } })
+
+    await state.validateField('name')
+    await state.set('name', 'Jane')
+
+    assert.equal(user.name, 'Jane')
+    assert.deepEqual(state.errorsFor('name'), [])
+    assert.true(state.isValid)
+    assert.true(state.isDirty)
+    assert.true(state.isFieldDirty('name'))
+  })
+
+  test('validate checks every constrained field', async function (assert) {
+    const state = createValidator(buildUser(), {
+      name: { presence: true },
+      email: { email: true },
+      address: { nested: { constraints: { zip: { presence: true } } } },
+    })
+
+    assert.false(await state.validate())
+    assert.deepEqual(state.errors, {
+      name: ['Must be present'],
+      'address.zip': ['Must be present'],
+    })
+
+    await state.set('address', { zip: '01234' })
+
+    assert.deepEqual(state.errorsFor('address.zip'), [])
+    assert.deepEqual(state.errors, { name: ['Must be present'] })
+  })
+
+  test('validate halts the model as a whole', async function (assert) {
+    const state = createValidator(
+      buildUser(),
+      {
+        name: { presence: true },
+        email: { absence: true },
+      },
+      { haltBy: 'first-error' },
+    )
+
+    assert.false(await state.validate())
+    assert.deepEqual(state.errors, { name: ['Must be present'] })
+  })
+
+  test('revalidating a field during validate keeps the other fields running', async function (assert) {
+    const pending = deferred<string | undefined>()
+    const signals: AbortSignal[] = []
+    const state = createValidator(buildUser(), {
+      name: { presence: true },
+      email: {
+        custom: {
+          with: (_model, _field, _value, _options, { signal }) => {
+            signals.push(signal!)
+            return pending.promise
+          },
+        },
+      },
+    })
+
+    const validation = state.validate()
+    await state.set('name', 'Jane')
+    pending.resolve('Taken')
+
+    assert.false(await validation)
+    assert.false(signals[0]!.aborted)
+    assert.deepEqual(state.errors, { email: ['Taken'] })
+  })
+
+  test('tracks whether validations are running', async function (assert) {
+    const pending = deferred<string | undefined>()
+    const state = createValidator(buildUser(), {
+      name: { custom: { with: () => pending.promise } },
+    })
+
+    const validation = state.validateField('name')
+
+    assert.true(state.isValidating)
+
+    pending.resolve('Taken')
+    await validation
+
+    assert.false(state.isValidating)
+    assert.deepEqual(state.errorsFor('name'), ['Taken'])
+  })
+
+  test('discards results of superseded validations', async function (assert) {
+    const responses = [
+      deferred<string | undefined>(),
+      deferred<string | undefined>(),
+    ]
+    let call = 0
+    const state = createValidator(buildUser(), {
+      name: { custom: { with: () => responses[call++]!.promise } },
+    })
+
+    const stale = state.set('name', 'jan')
+    const latest = state.set('name', 'jane')
+
+    responses[1]!.resolve(undefined)
+    await latest
+    responses[0]!.resolve('Taken')
+    await stale
+
+    assert.deepEqual(state.errorsFor('name'), [])
+    assert.false(state.isValidating)
+  })
+
+  test('aborts superseded validations', async function (assert) {
+    const signals: AbortSignal[] = []
+    const state = createValidator(buildUser(), {
+      name: {
+        custom: {
+          with: (_model, _field, _value, _options, { signal }) => {
+            signals.push(signal!)
+          },
+        },
+      },
+    })
+
+    await Promise.all([state.set('name', 'jan'), state.set('name', 'jane')])
+
+    assert.deepEqual(
+      signals.map(({ aborted }) => aborted),
+      [true, false],
+    )
+  })
+
+  test('debounces revalidation of changed fields', async function (assert) {
+    let calls = 0
+    const state = createValidator(
+      buildUser(),
+      {
+        name: {
+          custom: {
+            with: () => {
+              calls++
+            },
+          },
+        },
+      },
+      { debounce: 10 },
+    )
+
+    const first = state.set('name', 'J')
+    const second = state.set('name', 'Ja')
+    const third = state.set('name', 'Jan')
+
+    await Promise.all([first, second, third])
+
+    assert.equal(calls, 1)
+    assert.true(state.isFieldDirty('name'))
+  })
+
+  test('reset clears errors and dirty flags', async function (assert) {
+    const pending = deferred<string | undefined>()
+    const state = createValidator(buildUser(), {
+      name: { presence: true },
+      email: { custom: { with: () => pending.promise } },
+    })
+
+    await state.set('name', undefined)
+    const validation = state.validateField('email')
+
+    state.reset()
+    pending.resolve('Taken')
+    await validation
+
+    assert.true(state.isValid)
+    assert.false(state.isDirty)
+    assert.false(state.isValidating)
+    assert.deepEqual(state.errors, {})
+  })
+
+  test('translate translates the current messages again', async function (assert) {
+    let locale = 'en'
+    const handler = {
+      exists: () => true,
+      t: () => (locale === 'en' ? 'Required' : 'Obligatoire'),
+    }
+    const state = createValidator(
+      buildUser(),
+      {
+        name: { presence: true },
+        address: { presence: { message: 'Custom' } },
+      },
+      { i18n: { handler } },
+    )
+    state.model.address = undefined as unknown as User['address']
+
+    await state.validate()
+    locale = 'fr'
+    state.translate()
+
+    assert.deepEqual(state.errors, {
+      name: ['Obligatoire'],
+      address: ['Custom'],
+    })
+  })
+
+  test('validates in the context it was created with', async function (assert) {
+    const state = createValidator(
+      buildUser(),
+      {
+        name: { presence: { contexts: ['signup'] } },
+        email: { absence: { contexts: ['profile'] } },
+      },
+      { context: 'signup' },
+    )
+
+    assert.false(await state.validate())
+    assert.deepEqual(state.errors, { name: ['Must be present'] })
+  })
+
+  test('keeps warnings apart from errors', async function (assert) {
+    const state = createValidator(buildUser(), {
+      name: { presence: true },
+      email: { format: { pattern: /\.org$/, severity: 'warning' } },
+    })
+
+    await state.set('name', 'Jane')
+    await state.validateField('email')
+
+    assert.true(state.isValid)
+    assert.deepEqual(state.errors, {})
+    assert.deepEqual(state.warnings, {
+      email: ['Must have a valid format'],
+    })
+    assert.deepEqual(state.warningsFor('email'), ['Must have a valid format'])
+    assert.deepEqual(state.messagesFor('email', 'info'), [])
+  })
+
+  test('names other fields by their label', async function (assert) {
+    const state = createValidator(
+      { password: 'secret', passwordConfirmation: '' },
+      {
+        password: { label: 'Password' },
+        passwordConfirmation: { confirmation: { on: 'password' } },
+      },
+    )
+
+    await state.set('passwordConfirmation', 'other')
+
+    assert.deepEqual(state.errorsFor('passwordConfirmation'), [
+      'Must match Password',
+    ])
+  })
+})
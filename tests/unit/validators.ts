@@ -5,17 +5,33 @@ import {
   validateType,
   validateInstance,
   validateLength,
+  validateNumericality,
+  validateDate,
   validateEmail,
   validateFormat,
   validateConfirmation,
+  validateComparison,
   validateInclusion,
   validateExclusion,
   validateUUID,
   validateCustom,
+  instanceErrorFor,
+  numericalityErrorFor,
+  dateErrorFor,
+  confirmationErrorFor,
+  comparisonErrorFor,
+  exclusionErrorFor,
 } from '#src/validators.ts'
 import { InvalidValueForConstraintError } from '#src/error.ts'
 
 module('Unit | Validators | validatePresence', function () {
+  test('reports failures by their message', function (assert) {
+    assert.equal(
+      validatePresence({ name: null }, 'name', null, {}),
+      'Must be present',
+    )
+  })
+
   test('passes when value is present', function (assert) {
     const model = { name: 'Test' }
 
@@ -137,6 +153,32 @@ module('Unit | Validators | validateInstance', function () {
       undefined,
     )
   })
+
+  test('passes when value is instance of any of the constructors', function (assert) {
+    const model = { when: 0 }
+    const options = { Constructor: [Date, Number] }
+
+    assert.equal(
+      validateInstance(model, 'when', new Date(), options),
+      undefined,
+    )
+    assert.equal(
+      validateInstance(model, 'when', new Number(0), options),
+      undefined,
+    )
+    assert.notEqual(validateInstance(model, 'when', 'now', options), undefined)
+  })
+
+  test('reports failures under its own key with the constructor names', function (assert) {
+    const error = instanceErrorFor({ when: 0 }, 'when', 0, {
+      Constructor: [Date, Number],
+    })
+
+    assert.equal(error?.constraint, 'instance')
+    assert.equal(error?.key, 'validation.instance')
+    assert.equal(error?.options.constructors, 'Date, Number')
+    assert.equal(error?.message, 'Must be an instance of Date or Number')
+  })
 })
 
 module('Unit | Validators | validateLength', function () {
@@ -214,6 +256,244 @@ module('Unit | Validators | validateLength', function () {
   })
 })
 
+module('Unit | Validators | validateNumericality', function () {
+  const model = { age: 30 }
+
+  function failureOf(
+    value: unknown,
+    options: Parameters<typeof numericalityErrorFor>[3],
+  ) {
+    return numericalityErrorFor(model, 'age', value, options)?.constraint
+  }
+
+  test('throws error when value is not a number', function (assert) {
+    assert.throws(() => {
+      validateNumericality(model, 'age', '30', {})
+    }, InvalidValueForConstraintError)
+
+    assert.throws(() => {
+      validateNumericality(model, 'age', null, { allowString: true })
+    }, InvalidValueForConstraintError)
+  })
+
+  test('fails when value is not a valid number', function (assert) {
+    assert.equal(failureOf(NaN, {}), 'numericality.notANumber')
+    assert.equal(
+      failureOf('thirty', { allowString: true }),
+      'numericality.notANumber',
+    )
+    assert.equal(
+      failureOf(' ', { allowString: true }),
+      'numericality.notANumber',
+    )
+  })
+
+  test('accepts numeric strings when allowed', function (assert) {
+    assert.equal(failureOf('30', { allowString: true }), undefined)
+    assert.equal(
+      failureOf('2.5', { allowString: true, onlyInteger: true }),
+      'numericality.onlyInteger',
+    )
+  })
+
+  test('passes when no checks are enabled', function (assert) {
+    assert.equal(failureOf(-1.5, {}), undefined)
+    assert.equal(failureOf(3, { odd: false, positive: false }), undefined)
+  })
+
+  test('checks bounds', function (assert) {
+    assert.equal(failureOf(5, { greaterThan: 4 }), undefined)
+    assert.equal(failureOf(4, { greaterThan: 4 }), 'numericality.greaterThan')
+
+    assert.equal(failureOf(4, { greaterThanOrEqualTo: 4 }), undefined)
+    assert.equal(
+      failureOf(3, { greaterThanOrEqualTo: 4 }),
+      'numericality.greaterThanOrEqualTo',
+    )
+
+    assert.equal(failureOf(3, { lessThan: 4 }), undefined)
+    assert.equal(failureOf(4, { lessThan: 4 }), 'numericality.lessThan')
+
+    assert.equal(failureOf(4, { lessThanOrEqualTo: 4 }), undefined)
+    assert.equal(
+      failureOf(5, { lessThanOrEqualTo: 4 }),
+      'numericality.lessThanOrEqualTo',
+    )
+
+    assert.equal(failureOf(4, { equalTo: 4 }), undefined)
+    assert.equal(failureOf(5, { equalTo: 4 }), 'numericality.equalTo')
+
+    assert.equal(failureOf(5, { otherThan: 4 }), undefined)
+    assert.equal(failureOf(4, { otherThan: 4 }), 'numericality.otherThan')
+  })
+
+  test('checks integers and parity', function (assert) {
+    assert.equal(failureOf(3, { onlyInteger: true }), undefined)
+    assert.equal(
+      failureOf(3.5, { onlyInteger: true }),
+      'numericality.onlyInteger',
+    )
+
+    assert.equal(failureOf(-3, { odd: true }), undefined)
+    assert.equal(failureOf(4, { odd: true }), 'numericality.odd')
+    assert.equal(failureOf(3.5, { odd: true }), 'numericality.odd')
+
+    assert.equal(failureOf(-4, { even: true }), undefined)
+    assert.equal(failureOf(3, { even: true }), 'numericality.even')
+  })
+
+  test('checks signs', function (assert) {
+    assert.equal(failureOf(1, { positive: true }), undefined)
+    assert.equal(failureOf(0, { positive: true }), 'numericality.positive')
+
+    assert.equal(failureOf(-1, { negative: true }), undefined)
+    assert.equal(failureOf(0, { negative: true }), 'numericality.negative')
+  })
+
+  test('interpolates bounds in messages', function (assert) {
+    const error = numericalityErrorFor(model, 'age', 10, {
+      greaterThan: 18,
+      lessThan: 65,
+    })
+
+    assert.equal(error?.message, 'Must be greater than 18')
+    assert.equal(error?.options.greaterThan, 18)
+    assert.equal(error?.key, 'validation.numericality.greaterThan')
+  })
+})
+
+module('Unit | Validators | validateDate', function () {
+  const now = () => new Date('2025-06-15T12:00:00Z')
+  const model = {
+    startDate: '2025-07-01',
+    endDate: new Date('2025-07-10'),
+    emptyDate: null,
+  }
+
+  function failureOf(
+    value: unknown,
+    options: Parameters<typeof dateErrorFor>[3],
+  ) {
+    return dateErrorFor(model, 'startDate', value, { now, ...options })
+      ?.constraint
+  }
+
+  test('throws error when value is not date-like', function (assert) {
+    assert.throws(() => {
+      validateDate(model, 'startDate', true, {})
+    }, InvalidValueForConstraintError)
+
+    assert.throws(() => {
+      validateDate(model, 'startDate', null, {})
+    }, InvalidValueForConstraintError)
+  })
+
+  test('accepts dates, date strings and epoch numbers', function (assert) {
+    assert.equal(failureOf(new Date('2025-07-01'), {}), undefined)
+    assert.equal(failureOf('2025-07-01T10:00:00Z', {}), undefined)
+    assert.equal(failureOf(Date.UTC(2025, 6, 1), {}), undefined)
+  })
+
+  test('fails for invalid dates', function (assert) {
+    assert.equal(failureOf('not a date', {}), 'date.invalid')
+    assert.equal(failureOf(new Date(NaN), {}), 'date.invalid')
+    assert.equal(failureOf(NaN, {}), 'date.invalid')
+  })
+
+  test('checks absolute bounds', function (assert) {
+    const bound = new Date('2025-07-01')
+
+    assert.equal(failureOf('2025-06-30', { before: bound }), undefined)
+    assert.equal(failureOf('2025-07-01', { before: bound }), 'date.before')
+
+    assert.equal(failureOf('2025-07-02', { after: '2025-07-01' }), undefined)
+    assert.equal(failureOf('2025-07-01', { after: '2025-07-01' }), 'date.after')
+
+    assert.equal(failureOf('2025-07-01', { onOrBefore: bound }), undefined)
+    assert.equal(
+      failureOf('2025-07-02', { onOrBefore: bound }),
+      'date.onOrBefore',
+    )
+
+    assert.equal(
+      failureOf('2025-07-01', { onOrAfter: bound.getTime() }),
+      undefined,
+    )
+    assert.equal(
+      failureOf('2025-06-30', { onOrAfter: bound.getTime() }),
+      'date.onOrAfter',
+    )
+  })
+
+  test('checks bounds relative to the injected clock', function (assert) {
+    const within90Days = (_model: unknown, today: Date) =>
+      new Date(today.getTime() + 90 * 24 * 60 * 60 * 1000)
+
+    assert.equal(
+      failureOf('2025-06-16', { after: (_, today) => today }),
+      undefined,
+    )
+    assert.equal(
+      failureOf('2025-06-14', { after: (_, today) => today }),
+      'date.after',
+    )
+    assert.equal(
+      failureOf('2025-09-01', { onOrBefore: within90Days }),
+      undefined,
+    )
+    assert.equal(
+      failureOf('2025-10-01', { onOrBefore: within90Days }),
+      'date.onOrBefore',
+    )
+  })
+
+  test('checks bounds read from sibling fields', function (assert) {
+    assert.equal(
+      failureOf('2025-07-09', { before: { on: 'endDate' } }),
+      undefined,
+    )
+    assert.equal(
+      failureOf('2025-07-11', { before: { on: 'endDate' } }),
+      'date.before',
+    )
+    assert.equal(
+      failureOf('2025-07-11', {
+        before: (model) => model.endDate as Date,
+      }),
+      'date.before',
+    )
+  })
+
+  test('ignores bounds pointing to empty values', function (assert) {
+    assert.equal(
+      failureOf('2025-07-11', { before: { on: 'emptyDate' } }),
+      undefined,
+    )
+    assert.equal(
+      failureOf('2025-07-11', { before: () => undefined }),
+      undefined,
+    )
+  })
+
+  test('throws error when a bound is not a valid date', function (assert) {
+    assert.throws(() => {
+      validateDate(model, 'startDate', '2025-07-01', {
+        before: 'not a date',
+      })
+    }, InvalidValueForConstraintError)
+  })
+
+  test('provides resolved bounds for translation', function (assert) {
+    const error = dateErrorFor(model, 'startDate', '2025-07-11', {
+      before: { on: 'endDate' },
+    })
+
+    assert.equal(error?.key, 'validation.date.before')
+    assert.deepEqual(error?.options.before, model.endDate)
+    assert.equal(error?.message, 'Must be before 2025-07-10T00:00:00.000Z')
+  })
+})
+
 module('Unit | Validators | validateEmail', function () {
   test('throws error when value is not a string', function (assert) {
     const model = { email: 123 }
@@ -339,6 +619,190 @@ module('Unit | Validators | validateConfirmation', function () {
       undefined,
     )
   })
+
+  test('names the other field by its label', function (assert) {
+    const model = { password: 'secret', passwordConfirmation: 'other' }
+
+    const unlabelled = confirmationErrorFor(
+      model,
+      'passwordConfirmation',
+      'other',
+      { on: 'password' },
+    )
+    const labelled = confirmationErrorFor(
+      model,
+      'passwordConfirmation',
+      'other',
+      { on: 'password' },
+      { labels: { password: 'Password' } },
+    )
+
+    assert.equal(unlabelled?.message, "Must match 'password'")
+    assert.equal(unlabelled?.options.otherLabel, 'password')
+    assert.equal(labelled?.message, 'Must match Password')
+    assert.equal(labelled?.options.otherLabel, 'Password')
+  })
+})
+
+module('Unit | Validators | validateComparison', function () {
+  test('compares against the other field with each operator', function (assert) {
+    const model = { min: 5, max: 0 }
+    const failureOf = (
+      value: number,
+      operator: Parameters<typeof validateComparison>[3]['operator'],
+    ) => validateComparison(model, 'max', value, { on: 'min', operator })
+
+    assert.equal(failureOf(5, 'eq'), undefined)
+    assert.notEqual(failureOf(6, 'eq'), undefined)
+
+    assert.equal(failureOf(6, 'neq'), undefined)
+    assert.notEqual(failureOf(5, 'neq'), undefined)
+
+    assert.equal(failureOf(4, 'lt'), undefined)
+    assert.notEqual(failureOf(5, 'lt'), undefined)
+
+    assert.equal(failureOf(5, 'lte'), undefined)
+    assert.notEqual(failureOf(6, 'lte'), undefined)
+
+    assert.equal(failureOf(6, 'gt'), undefined)
+    assert.notEqual(failureOf(5, 'gt'), undefined)
+
+    assert.equal(failureOf(5, 'gte'), undefined)
+    assert.notEqual(failureOf(4, 'gte'), undefined)
+  })
+
+  test('compares dates by their time', function (assert) {
+    const model = { start: new Date('2025-01-01'), end: null }
+
+    assert.equal(
+      validateComparison(model, 'end', new Date('2025-01-02'), {
+        on: 'start',
+        operator: 'gt',
+      }),
+      undefined,
+    )
+    assert.equal(
+      validateComparison(model, 'end', new Date('2025-01-01'), {
+        on: 'start',
+        operator: 'eq',
+      }),
+      undefined,
+    )
+    assert.notEqual(
+      validateComparison(model, 'end', new Date('2024-12-31'), {
+        on: 'start',
+        operator: 'gt',
+      }),
+      undefined,
+    )
+  })
+
+  test('uses the provided comparator', function (assert) {
+    const model = { oldPassword: 'Secret' }
+    const caseInsensitive = (a: unknown, b: unknown) =>
+      String(a).toLowerCase().localeCompare(String(b).toLowerCase())
+
+    assert.notEqual(
+      validateComparison(model, 'newPassword', 'secret', {
+        on: 'oldPassword',
+        operator: 'neq',
+        comparator: caseInsensitive,
+      }),
+      undefined,
+    )
+    assert.equal(
+      validateComparison(model, 'newPassword', 'secret', {
+        on: 'oldPassword',
+        operator: 'neq',
+      }),
+      undefined,
+    )
+  })
+
+  test('skips the comparison when the other field is absent', function (assert) {
+    const model = { start: null }
+
+    assert.equal(
+      validateComparison(model, 'end', 10, { on: 'start', operator: 'gt' }),
+      undefined,
+    )
+  })
+
+  test('only satisfies neq on incomparable values', function (assert) {
+    const model = { other: { x: 1 } }
+
+    assert.notEqual(
+      validateComparison(
+        model,
+        'field',
+        { x: 2 },
+        { on: 'other', operator: 'eq' },
+      ),
+      undefined,
+    )
+    assert.notEqual(
+      validateComparison(
+        model,
+        'field',
+        { x: 2 },
+        { on: 'other', operator: 'gte' },
+      ),
+      undefined,
+    )
+    assert.equal(
+      validateComparison(
+        model,
+        'field',
+        { x: 2 },
+        { on: 'other', operator: 'neq' },
+      ),
+      undefined,
+    )
+    assert.equal(
+      validateComparison({ other: 5 }, 'field', '5', {
+        on: 'other',
+        operator: 'neq',
+      }),
+      undefined,
+    )
+    assert.equal(
+      validateComparison({ other: 1 }, 'field', 2, {
+        on: 'other',
+        operator: 'neq',
+        comparator: () => NaN,
+      }),
+      undefined,
+    )
+  })
+
+  test('interpolates the other field in messages', function (assert) {
+    const model = { min: 5 }
+
+    const error = comparisonErrorFor(model, 'max', 3, {
+      on: 'min',
+      operator: 'gte',
+    })
+
+    assert.equal(error?.constraint, 'compare.gte')
+    assert.equal(error?.key, 'validation.compare.gte')
+    assert.equal(error?.options.otherField, 'min')
+    assert.equal(error?.options.otherValue, 5)
+    assert.equal(error?.message, "Must be greater than or equal to 'min'")
+  })
+
+  test('names the other field by its label', function (assert) {
+    const error = comparisonErrorFor(
+      { starts: 2, ends: 1 },
+      'ends',
+      1,
+      { on: 'starts', operator: 'gt' },
+      { labels: { starts: 'Start' } },
+    )
+
+    assert.equal(error?.message, 'Must be greater than Start')
+    assert.equal(error?.options.otherField, 'starts')
+    assert.equal(error?.options.otherLabel, 'Start')
+  })
 })
 
 module('Unit | Validators | validateInclusion', function () {
@@ -443,6 +907,17 @@ module('Unit | Validators | validateExclusion', function () {
       undefined,
     )
   })
+
+  test('fails under its own constraint and key', function (assert) {
+    const model = { username: 'admin' }
+    const error = exclusionErrorFor(model, 'username', 'admin', {
+      from: ['admin'],
+    })
+
+    assert.equal(error?.constraint, 'exclusion')
+    assert.equal(error?.key, 'validation.exclusion')
+    assert.equal(error?.message, 'Must not be a disallowed value')
+  })
 })
 
 module('Unit | Validators | validateUUID', function () {
@@ -529,8 +1004,9 @@ module('Unit | Validators | validateCustom', function () {
         receivedArgs = args
       },
     }
-    await validateCustom(model, 'value', 'test', options)
+    const context = { signal: new AbortController().signal }
+    await validateCustom(model, 'value', 'test', options, context)
 
-    assert.deepEqual(receivedArgs, [model, 'value', 'test', options])
+    assert.deepEqual(receivedArgs, [model, 'value', 'test', options, context])
   })
 })
@@ -12,6 +12,11 @@ export default defineConfig({
         find: 'ember-perspective',
         replacement: `${__dirname}/src`,
       },
+      // @glimmer/tracking is a peer dependency, provided by ember-source
+      {
+        find: /^@glimmer\/tracking$/,
+        replacement: 'ember-source/@glimmer/tracking/index.js',
+      },
     ],
   },
   plugins: [